@@ -1,7 +1,93 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { find4DProjectFile, FourDProjectFile } from './utils/projectFinder';
-import { open4DProject, LaunchOptions, setOutputChannel } from './utils/launcher';
+import { FourDProjectFile, listProjectMethods } from './utils/projectFinder';
+import {
+  FolderProjects,
+  findProjectsByFolder,
+  getPreferredProject,
+  saveSelectedProject
+} from './utils/workspaceProjects';
+import { registerProjectIndex, onDidChangeProjects } from './utils/projectIndex';
+import { open4DProject, LaunchOptions, setLogsDirectory, setOutputChannel } from './utils/launcher';
+import {
+  Running4DInstance,
+  getRunningInstances,
+  stopInstance,
+  waitForExit,
+  formatUptime
+} from './utils/processManager';
+import { registerInstanceOutput, showInstanceOutput } from './utils/instanceOutput';
+import { waitForReadiness, ReadinessResult } from './utils/launchReadiness';
+import {
+  FourDApplication,
+  getApplications,
+  findApplicationByName,
+  getApplicationVersion,
+  getApplicationKind,
+  filterApplicationsByKind,
+  clearApplicationKindCache,
+  APPLICATION_KIND_ICONS,
+  APPLICATION_KIND_LABELS,
+  PROJECT_KINDS,
+  CLIENT_KINDS,
+  SERVER_KINDS
+} from './utils/applications';
+import {
+  LocalServerOptions,
+  LOCAL_SERVER_HOST,
+  discoverLocalServer,
+  readLocalServerOptions
+} from './utils/localServer';
+import { getApplicationMetadata, formatVersionLabel } from './utils/appMetadata';
+import { detectApplications, generateApplicationName, getSearchRoots } from './utils/appDetection';
+import {
+  FourDVersion,
+  readProjectVersion,
+  formatVersion,
+  compareFeatureLevel
+} from './utils/fourDVersion';
+import { FourDTaskProvider, FOURD_TASK_TYPE } from './utils/taskProvider';
+import {
+  FourDConfigurationProvider,
+  FourDDebugAdapterFactory,
+  FOURD_DEBUG_TYPE
+} from './utils/launchConfiguration';
+import { compileProject, CompileResult } from './utils/compiler';
+import { registerTestController } from './utils/testController';
+import { registerProjectStatusBar, ProjectStatus } from './utils/projectStatusBar';
+import {
+  ApplicationsTreeProvider,
+  ProjectsTreeProvider,
+  ServersTreeProvider,
+  ComponentsTreeProvider,
+  ApplicationNode,
+  ProjectNode,
+  ServerNode,
+  ComponentNode,
+  APPLICATIONS_VIEW,
+  PROJECTS_VIEW,
+  SERVERS_VIEW,
+  COMPONENTS_VIEW
+} from './utils/treeViews';
+import { FourDComponent, findProjectComponents } from './utils/components';
+import { DataFileInfo, findDataFiles, getDataFileInfo, formatFileSize, sortDataFiles } from './utils/dataFiles';
+import {
+  DataSnapshot,
+  setSnapshotsDirectory,
+  resolveLaunchDataFile,
+  createSnapshot,
+  listSnapshots,
+  restoreSnapshot,
+  deleteSnapshot
+} from './utils/dataSnapshots';
+import {
+  LaunchProfile,
+  ScopedLaunchProfile,
+  getLaunchProfiles,
+  saveLaunchProfile,
+  removeLaunchProfile,
+  resolveProfileOptions
+} from './utils/launchProfiles';
 import {
   checkPort,
   scanSubnetUDP,
@@ -9,7 +95,7 @@ import {
   ServerScanResult,
   Server4DScanResult,
   getDefault4DPorts,
-  discover4DServer
+  Server4DDiscoveryInfo
 } from './utils/serverScanner';
 import {
   Server4D,
@@ -17,10 +103,10 @@ import {
   getSavedServers,
   addServer,
   removeServer,
+  checkServerStatus,
   getScanSettings,
   generate4DLink,
   cleanupOld4DLinks,
-  is4DClient,
   generateServerName,
   getScanCache,
   setScanCache,
@@ -32,10 +118,30 @@ import {
 // Output channel for logging
 let outputChannel: vscode.OutputChannel;
 
-interface FourDApplication {
-  name: string;
-  path: string;
-}
+// Global state used to remember values across sessions (e.g. user param history)
+let globalState: vscode.Memento;
+
+// Workspace state used to remember values per workspace (e.g. last launch of each project)
+let workspaceState: vscode.Memento;
+
+const USER_PARAM_HISTORY_KEY = '4d-helper.userParamHistory';
+const USER_PARAM_HISTORY_SIZE = 10;
+
+const DATA_FILE_HISTORY_KEY = '4d-helper.recentDataFiles';
+const DATA_FILE_HISTORY_SIZE = 10;
+/** Last data file used for each project, keyed by project file path */
+const LAST_DATA_FILE_KEY = '4d-helper.lastDataFiles';
+
+/** Application and options last used for each project, keyed by project file path */
+const PROJECT_LAUNCHES_KEY = '4d-helper.projectLaunches';
+/** URI of the workspace folder a project was last selected in */
+const LAST_PROJECT_FOLDER_KEY = '4d-helper.lastProjectFolder';
+
+/** Application and options of the last successful launch, offered when saving a profile */
+let lastLaunch: Omit<LaunchProfile, 'name'> | undefined;
+
+/** Updates the project status bar item */
+let refreshStatusBar: () => void = () => {};
 
 /** Option IDs for the launch options QuickPick */
 type LaunchOptionId =
@@ -45,7 +151,10 @@ type LaunchOptionId =
   | 'customData'
   | 'createData'
   | 'dataless'
-  | 'headless';
+  | 'headless'
+  | 'userParam'
+  | 'startupMethod'
+  | 'snapshotData';
 
 interface LaunchOptionItem extends vscode.QuickPickItem {
   id: LaunchOptionId;
@@ -94,14 +203,74 @@ const LAUNCH_OPTIONS: LaunchOptionItem[] = [
     label: 'Headless',
     description: 'Run without UI',
   },
+  {
+    id: 'userParam',
+    label: 'User Parameter...',
+    description: 'Pass a value readable with Get database parameter(User param value)',
+  },
+  {
+    id: 'startupMethod',
+    label: 'Startup Method...',
+    description: 'Run a project method at startup',
+  },
+  {
+    id: 'snapshotData',
+    label: 'Snapshot Data Before Launch',
+    description: 'Copy the data file, index and journal to a snapshot first',
+  },
 ];
 
 export function activate(context: vscode.ExtensionContext) {
   // Create output channel for logging
   outputChannel = vscode.window.createOutputChannel('4D Helper');
+  globalState = context.globalState;
+  workspaceState = context.workspaceState;
   setOutputChannel(outputChannel);
   context.subscriptions.push(outputChannel);
 
+  // Output of launched instances, kept with the extension logs of the session
+  setLogsDirectory(path.join(context.logUri.fsPath, 'instances'));
+
+  // Data snapshots go to the configured folder or the extension storage
+  const updateSnapshotsDirectory = () => {
+    const configured = vscode.workspace.getConfiguration('4d-helper').get<string>('snapshots.directory', '');
+    setSnapshotsDirectory(configured || path.join(context.globalStorageUri.fsPath, 'snapshots'));
+  };
+  updateSnapshotsDirectory();
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('4d-helper.snapshots.directory')) {
+        updateSnapshotsDirectory();
+      }
+    })
+  );
+
+  // Project discovery is cached and kept fresh by watching project files
+  registerProjectIndex(context);
+
+  // Detect application kinds again when the applications change
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('4d-helper.applications')) {
+        clearApplicationKindCache();
+      }
+    })
+  );
+
+  // Stream the output of launched 4D instances into their own channels
+  registerInstanceOutput(context, getAppDisplayName);
+
+  // Provide "4d" tasks for tasks.json
+  context.subscriptions.push(
+    vscode.tasks.registerTaskProvider(FOURD_TASK_TYPE, new FourDTaskProvider())
+  );
+
+  // "4d" launch configurations for launch.json / F5
+  context.subscriptions.push(
+    vscode.debug.registerDebugConfigurationProvider(FOURD_DEBUG_TYPE, new FourDConfigurationProvider()),
+    vscode.debug.registerDebugAdapterDescriptorFactory(FOURD_DEBUG_TYPE, new FourDDebugAdapterFactory())
+  );
+
   const openProjectCommand = vscode.commands.registerCommand(
     '4d-helper.openProject',
     async () => {
@@ -110,130 +279,452 @@ export function activate(context: vscode.ExtensionContext) {
       outputChannel.appendLine('=== 4D Helper: Open Project Command Started ===');
       outputChannel.appendLine(`Timestamp: ${new Date().toISOString()}`);
 
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      if (!workspaceFolder) {
-        outputChannel.appendLine('ERROR: No workspace folder open');
-        vscode.window.showErrorMessage('No workspace folder open');
-        return;
-      }
-      outputChannel.appendLine(`Workspace: ${workspaceFolder.uri.fsPath}`);
-
       // Find the project file
       outputChannel.appendLine('Finding project file...');
-      const projectFile = await resolveProjectFile(workspaceFolder);
+      const projectFile = await resolveProjectFile();
       if (!projectFile) {
         outputChannel.appendLine('ERROR: No project file found or selected');
         return;
       }
       outputChannel.appendLine(`Project file: ${projectFile}`);
 
-      // Get 4D applications from settings
-      outputChannel.appendLine('Getting 4D applications from settings...');
-      const config = vscode.workspace.getConfiguration('4d-helper');
-      const applications = config.get<FourDApplication[]>('applications', []);
-      outputChannel.appendLine(`Found ${applications.length} applications`);
-
-      if (applications.length === 0) {
-        outputChannel.appendLine('ERROR: No applications configured');
-        const openSettings = 'Open Settings';
-        const result = await vscode.window.showWarningMessage(
-          'No 4D applications configured. Please add applications in settings.',
-          openSettings
+      await openProjectInteractively(projectFile, 'Open 4D Project');
+    }
+  );
+
+  context.subscriptions.push(openProjectCommand);
+
+  // ========================================
+  // Context Menu Commands
+  // ========================================
+
+  const openProjectFileCommand = vscode.commands.registerCommand(
+    '4d-helper.openProjectFile',
+    async (uri?: vscode.Uri) => {
+      outputChannel.show(true);
+      outputChannel.appendLine('=== 4D Helper: Open Project File Command Started ===');
+
+      const projectFile = getContextFile(uri, '.4DProject');
+      if (!projectFile) {
+        return;
+      }
+      outputChannel.appendLine(`Project file: ${projectFile}`);
+
+      await openProjectInteractively(projectFile, 'Open With 4D');
+    }
+  );
+
+  const openWithDataFileCommand = vscode.commands.registerCommand(
+    '4d-helper.openWithDataFile',
+    async (uri?: vscode.Uri) => {
+      outputChannel.show(true);
+      outputChannel.appendLine('=== 4D Helper: Open With Data File Command Started ===');
+
+      const dataFile = getContextFile(uri, '.4DD');
+      if (!dataFile) {
+        return;
+      }
+      outputChannel.appendLine(`Data file: ${dataFile}`);
+
+      const projectFile = await resolveProjectFile(uri);
+      if (!projectFile) {
+        return;
+      }
+      outputChannel.appendLine(`Project file: ${projectFile}`);
+
+      await rememberDataFile(dataFile, projectFile);
+      await openProjectInteractively(projectFile, 'Open With Data File', { options: { dataFile } });
+    }
+  );
+
+  const connectWith4DLinkCommand = vscode.commands.registerCommand(
+    '4d-helper.connectWith4DLink',
+    async (uri?: vscode.Uri) => {
+      outputChannel.appendLine('=== 4D Helper: Connect With 4DLink Command Started ===');
+
+      const linkPath = getContextFile(uri, '.4dlink');
+      if (!linkPath) {
+        return;
+      }
+
+      const configuredApps = getApplications();
+      if (configuredApps.length === 0) {
+        showNoApplicationsWarning();
+        return;
+      }
+
+      const clientApps = await filterApplicationsByKind(configuredApps, CLIENT_KINDS);
+      if (clientApps.length === 0) {
+        vscode.window.showWarningMessage(
+          'No 4D client applications found. Only 4D Server or tool4d applications are configured.'
         );
-        if (result === openSettings) {
-          vscode.commands.executeCommand(
-            'workbench.action.openSettings',
-            '4d-helper.applications'
-          );
-        }
         return;
       }
 
-      // Select 4D application
-      outputChannel.appendLine('Showing app selection...');
-      const appItems = applications.map((app) => ({
-        label: app.name,
-        description: app.path,
-        path: app.path,
-      }));
+      const clientApp = await promptForApplication(clientApps, 'Connect With 4DLink - Select Client');
+      if (!clientApp) {
+        return;
+      }
 
-      const selectedApp = await vscode.window.showQuickPick(appItems, {
-        placeHolder: 'Select a 4D application',
-        title: 'Open 4D Project - Step 1/2: Select Application',
-      });
+      try {
+        await open4DProject(clientApp.path, linkPath, {});
+        vscode.window.showInformationMessage(
+          `Connecting with ${path.basename(linkPath)} (${clientApp.name})`
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        outputChannel.appendLine(`Error: ${message}`);
+        vscode.window.showErrorMessage(`Failed to connect: ${message}`);
+      }
+    }
+  );
+
+  context.subscriptions.push(openProjectFileCommand, openWithDataFileCommand, connectWith4DLinkCommand);
+
+  const openProjectAsServerCommand = vscode.commands.registerCommand(
+    '4d-helper.openProjectAsServer',
+    async () => {
+      outputChannel.show(true);
+      outputChannel.appendLine('=== 4D Helper: Open Project as 4D Server Command Started ===');
+      outputChannel.appendLine(`Timestamp: ${new Date().toISOString()}`);
+
+      const projectFile = await resolveProjectFile();
+      if (!projectFile) {
+        return;
+      }
+      outputChannel.appendLine(`Project file: ${projectFile}`);
 
-      if (!selectedApp) {
-        outputChannel.appendLine('User cancelled app selection');
+      const configuredApps = getApplications();
+      if (configuredApps.length === 0) {
+        showNoApplicationsWarning();
         return;
       }
-      outputChannel.appendLine(`Selected app: ${selectedApp.label} (${selectedApp.path})`);
 
-      // Select launch options with multi-select
-      outputChannel.appendLine('Showing launch options...');
-      const launchOptions = await selectLaunchOptions();
-      if (launchOptions === undefined) {
-        outputChannel.appendLine('User cancelled options selection');
-        return; // User cancelled
+      const serverApps = await filterApplicationsByKind(configuredApps, SERVER_KINDS);
+      if (serverApps.length === 0) {
+        const detect = 'Detect Installed Versions';
+        const choice = await vscode.window.showWarningMessage('No 4D Server application configured.', detect);
+        if (choice === detect) {
+          vscode.commands.executeCommand('4d-helper.detectVersions');
+        }
+        return;
       }
-      outputChannel.appendLine(`Selected options: ${JSON.stringify(launchOptions)}`);
 
-      // Build launch options object
-      const options: LaunchOptions = {};
+      const projectVersion = await readProjectVersion(projectFile);
+      const matchingApp = projectVersion ? await findMatchingApplication(serverApps, projectVersion) : undefined;
 
-      if (launchOptions.includes('compiled')) {
-        options.openingMode = 'compiled';
-      } else if (launchOptions.includes('interpreted')) {
-        options.openingMode = 'interpreted';
+      const serverApp = await promptForApplication(
+        serverApps,
+        'Open Project as 4D Server - Step 1/2: Select 4D Server',
+        matchingApp?.name,
+        matchingApp && { name: matchingApp.name, description: 'matches project version' }
+      );
+      if (!serverApp) {
+        return;
       }
 
-      if (launchOptions.includes('skipOnStartup')) {
-        options.skipOnStartup = true;
+      if (projectVersion && !(await confirmVersionCompatibility(serverApp, projectFile, projectVersion))) {
+        return;
       }
 
-      if (launchOptions.includes('headless')) {
-        options.headless = true;
+      const options = await promptForLaunchOptions(
+        'Open Project as 4D Server - Step 2/2: Launch Options',
+        projectFile
+      );
+      if (options === undefined) {
+        return;
       }
 
-      if (launchOptions.includes('dataless')) {
-        options.dataless = true;
-      } else if (launchOptions.includes('createData')) {
-        options.createData = true;
-      } else if (launchOptions.includes('customData')) {
-        const dataFile = await vscode.window.showOpenDialog({
-          canSelectFiles: true,
-          canSelectFolders: false,
-          canSelectMany: false,
-          filters: { '4D Data Files': ['4DD'] },
-          title: 'Select Data File',
-        });
+      // 4D Server publishes with the values of the project settings
+      const serverOptions = await readLocalServerOptions(projectFile);
+      outputChannel.appendLine(
+        `Expected publication: "${serverOptions.publicationName}" on port ${serverOptions.port}`
+      );
+
+      // Another server answering on the port would be mistaken for ours
+      const existing = await discoverLocalServer(serverOptions.port);
+      if (existing) {
+        vscode.window.showErrorMessage(
+          `A 4D Server already publishes "${existing.database}" on port ${serverOptions.port}. Stop it or choose another port.`
+        );
+        return;
+      }
 
-        if (!dataFile || dataFile.length === 0) {
-          return; // User cancelled
+      let info: Server4DDiscoveryInfo | undefined;
+      try {
+        const instance = await open4DProject(serverApp.path, projectFile, options);
+        if (!instance) {
+          throw new Error('The 4D Server process could not be identified');
         }
+        lastLaunch = { application: serverApp.name, options };
+
+        const result = await watchLaunch(instance, serverApp.name, options, { server: serverOptions });
+        info = result?.server;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        outputChannel.appendLine(`Error: ${message}`);
+        vscode.window.showErrorMessage(`Failed to start 4D Server: ${message}`);
+        return;
+      }
+
+      if (!info) {
+        return;
+      }
+
+      outputChannel.appendLine(`4D Server ready: "${info.database}" on ${LOCAL_SERVER_HOST}:${serverOptions.port}`);
+
+      const connectClient = 'Connect Client';
+      const choice = await vscode.window.showInformationMessage(
+        `4D Server publishes "${info.database}" on port ${serverOptions.port}`,
+        connectClient
+      );
+      if (choice !== connectClient) {
+        return;
+      }
+
+      const clientApps = await filterApplicationsByKind(configuredApps, CLIENT_KINDS);
+      if (clientApps.length === 0) {
+        vscode.window.showWarningMessage('No 4D client application configured.');
+        return;
+      }
 
-        options.dataFile = dataFile[0].fsPath;
+      // Client and server must be the same version
+      const serverVersion = await getApplicationVersion(serverApp);
+      const matchingClient = serverVersion ? await findMatchingApplication(clientApps, serverVersion) : undefined;
+      const clientApp = await promptForApplication(
+        clientApps,
+        'Connect to Local 4D Server - Select Client',
+        matchingClient?.name,
+        matchingClient && { name: matchingClient.name, description: 'matches server version' }
+      );
+      if (!clientApp) {
+        return;
       }
 
-      // Launch 4D
-      outputChannel.appendLine(`Built options: ${JSON.stringify(options)}`);
-      outputChannel.appendLine('Calling open4DProject...');
       try {
-        await open4DProject(selectedApp.path, projectFile, options);
+        const linkPath = await generate4DLink({
+          name: info.database,
+          host: LOCAL_SERVER_HOST,
+          port: serverOptions.port
+        });
+        outputChannel.appendLine(`Generated 4DLink file: ${linkPath}`);
 
-        const optionsSummary = summarizeLaunchOptions(options);
-        vscode.window.showInformationMessage(
-          `Opening project with ${selectedApp.label}${optionsSummary}`
+        await open4DProject(clientApp.path, linkPath, {});
+        vscode.window.showInformationMessage(`Connecting to "${info.database}" with ${clientApp.name}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        outputChannel.appendLine(`Error: ${message}`);
+        vscode.window.showErrorMessage(`Failed to connect client: ${message}`);
+      }
+    }
+  );
+
+  context.subscriptions.push(openProjectAsServerCommand);
+
+  // ============================================
+  // Launch Profile Commands
+  // ============================================
+
+  const launchProfileCommand = vscode.commands.registerCommand(
+    '4d-helper.launchProfile',
+    async () => {
+      outputChannel.show(true);
+      outputChannel.appendLine('=== 4D Helper: Launch Profile Command Started ===');
+      outputChannel.appendLine(`Timestamp: ${new Date().toISOString()}`);
+
+      const profile = await pickLaunchProfile('Launch 4D Profile');
+      if (!profile) {
+        return;
+      }
+      outputChannel.appendLine(`Selected profile: ${profile.name}`);
+
+      const app = findApplicationByName(profile.application);
+      if (!app) {
+        vscode.window.showErrorMessage(
+          `Application "${profile.application}" of profile "${profile.name}" is not configured`
         );
+        return;
+      }
+
+      const projectFile = await resolveProjectFile();
+      if (!projectFile) {
+        return;
+      }
+
+      // ${workspaceFolder} is the folder of the project
+      const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(projectFile));
+      const options = workspaceFolder
+        ? resolveProfileOptions(profile.options, workspaceFolder)
+        : profile.options;
+      try {
+        const instance = await open4DProject(app.path, projectFile, options);
+        lastLaunch = { application: app.name, options: profile.options };
+        await rememberProjectLaunch(projectFile, { application: app.name, options });
+        await watchLaunch(instance, app.name, options, {
+          startedMessage: `Opened project with profile "${profile.name}" (${app.name})`
+        });
       } catch (error) {
-        const message =
-          error instanceof Error ? error.message : 'Unknown error';
+        const message = error instanceof Error ? error.message : 'Unknown error';
         outputChannel.appendLine(`Error: ${message}`);
         vscode.window.showErrorMessage(`Failed to open project: ${message}`);
       }
     }
   );
 
-  context.subscriptions.push(openProjectCommand);
+  const saveLaunchProfileCommand = vscode.commands.registerCommand(
+    '4d-helper.saveLaunchProfile',
+    async () => {
+      outputChannel.appendLine('=== 4D Helper: Save Launch Profile Command Started ===');
+
+      let draft = lastLaunch;
+
+      if (draft) {
+        const source = await vscode.window.showQuickPick(
+          [
+            {
+              label: '$(history) Last Launch',
+              description: `${draft.application}${summarizeLaunchOptions(draft.options)}`,
+              useLast: true
+            },
+            {
+              label: '$(settings-gear) Choose Application and Options...',
+              useLast: false
+            }
+          ],
+          { placeHolder: 'What do you want to save as a profile?', title: 'Save Launch Profile' }
+        );
+        if (!source) {
+          return;
+        }
+        if (!source.useLast) {
+          draft = undefined;
+        }
+      }
+
+      if (!draft) {
+        draft = await promptForProfileSettings('Save Launch Profile');
+        if (!draft) {
+          return;
+        }
+      }
+
+      const name = await promptForProfileName();
+      if (!name) {
+        return;
+      }
+
+      const target = await vscode.window.showQuickPick(
+        [
+          {
+            label: 'Workspace Settings',
+            description: 'Shared with everyone working on this workspace',
+            value: vscode.ConfigurationTarget.Workspace
+          },
+          {
+            label: 'User Settings',
+            description: 'Available in all workspaces',
+            value: vscode.ConfigurationTarget.Global
+          }
+        ],
+        { placeHolder: 'Where do you want to save this profile?', title: 'Configuration Level' }
+      );
+      if (!target) {
+        return;
+      }
+
+      const exists = getLaunchProfiles().some((p) => p.name === name && p.target === target.value);
+      if (exists) {
+        const choice = await vscode.window.showWarningMessage(
+          `A profile named "${name}" already exists.`,
+          'Overwrite',
+          'Cancel'
+        );
+        if (choice !== 'Overwrite') {
+          return;
+        }
+      }
+
+      try {
+        await saveLaunchProfile({ name, ...draft }, target.value);
+        outputChannel.appendLine(`Profile saved: ${name}`);
+        vscode.window.showInformationMessage(`Launch profile "${name}" saved to ${target.label}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to save profile: ${message}`);
+      }
+    }
+  );
+
+  const editLaunchProfileCommand = vscode.commands.registerCommand(
+    '4d-helper.editLaunchProfile',
+    async () => {
+      outputChannel.appendLine('=== 4D Helper: Edit Launch Profile Command Started ===');
+
+      const profile = await pickLaunchProfile('Edit Launch Profile');
+      if (!profile) {
+        return;
+      }
+
+      const draft = await promptForProfileSettings(`Edit Launch Profile "${profile.name}"`, profile);
+      if (!draft) {
+        return;
+      }
+
+      // Renaming onto another profile of the same level would replace it
+      const otherNames = getLaunchProfiles()
+        .filter((p) => p.target === profile.target && p.name !== profile.name)
+        .map((p) => p.name);
+      const name = await promptForProfileName(profile.name, otherNames);
+      if (!name) {
+        return;
+      }
+
+      try {
+        await saveLaunchProfile({ name, ...draft }, profile.target, profile.name);
+        outputChannel.appendLine(`Profile updated: ${name}`);
+        vscode.window.showInformationMessage(`Launch profile "${name}" updated`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to update profile: ${message}`);
+      }
+    }
+  );
+
+  const deleteLaunchProfileCommand = vscode.commands.registerCommand(
+    '4d-helper.deleteLaunchProfile',
+    async () => {
+      outputChannel.appendLine('=== 4D Helper: Delete Launch Profile Command Started ===');
+
+      const profile = await pickLaunchProfile('Delete Launch Profile');
+      if (!profile) {
+        return;
+      }
+
+      const confirmation = await vscode.window.showWarningMessage(
+        `Are you sure you want to delete the profile "${profile.name}"?`,
+        { modal: true },
+        'Delete',
+        'Cancel'
+      );
+      if (confirmation !== 'Delete') {
+        return;
+      }
+
+      try {
+        await removeLaunchProfile(profile.name, profile.target);
+        outputChannel.appendLine(`Profile deleted: ${profile.name}`);
+        vscode.window.showInformationMessage(`Launch profile "${profile.name}" deleted`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to delete profile: ${message}`);
+      }
+    }
+  );
+
+  context.subscriptions.push(launchProfileCommand);
+  context.subscriptions.push(saveLaunchProfileCommand);
+  context.subscriptions.push(editLaunchProfileCommand);
+  context.subscriptions.push(deleteLaunchProfileCommand);
 
   const addVersionCommand = vscode.commands.registerCommand(
     '4d-helper.addVersion',
@@ -406,26 +897,24 @@ export function activate(context: vscode.ExtensionContext) {
       interface VersionQuickPickItem extends vscode.QuickPickItem {
         app: FourDApplication;
         source: 'user' | 'workspace';
-        configTarget: vscode.ConfigurationTarget;
       }
 
+      const icon = async (app: FourDApplication) => APPLICATION_KIND_ICONS[await getApplicationKind(app)];
       const items: VersionQuickPickItem[] = [
-        ...userApps.map(app => ({
-          label: app.name,
+        ...await Promise.all(userApps.map(async app => ({
+          label: `${await icon(app)} ${app.name}`,
           description: app.path,
           detail: 'User Settings',
           app: app,
-          source: 'user' as const,
-          configTarget: vscode.ConfigurationTarget.Global
-        })),
-        ...workspaceApps.map(app => ({
-          label: app.name,
+          source: 'user' as const
+        }))),
+        ...await Promise.all(workspaceApps.map(async app => ({
+          label: `${await icon(app)} ${app.name}`,
           description: app.path,
           detail: 'Workspace Settings',
           app: app,
-          source: 'workspace' as const,
-          configTarget: vscode.ConfigurationTarget.Workspace
-        }))
+          source: 'workspace' as const
+        })))
       ];
 
       // Show QuickPick to select version to remove
@@ -441,41 +930,126 @@ export function activate(context: vscode.ExtensionContext) {
 
       outputChannel.appendLine(`Selected: ${selectedItem.label} from ${selectedItem.source}`);
 
-      // Show confirmation dialog
-      const confirmation = await vscode.window.showWarningMessage(
-        `Are you sure you want to remove "${selectedItem.label}"?`,
-        { modal: true },
-        'Remove',
-        'Cancel'
+      await removeConfiguredApplication(selectedItem.app, selectedItem.source);
+    }
+  );
+
+  const detectVersionsCommand = vscode.commands.registerCommand(
+    '4d-helper.detectVersions',
+    async () => {
+      outputChannel.appendLine('=== 4D Helper: Detect Installed Versions Command Started ===');
+      outputChannel.appendLine(`Timestamp: ${new Date().toISOString()}`);
+
+      const config = vscode.workspace.getConfiguration('4d-helper');
+      const searchRoots = config.get<string[]>('detection.searchRoots', []);
+      outputChannel.appendLine(`Search roots: ${getSearchRoots(searchRoots).join(', ')}`);
+
+      const detected = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: 'Searching for installed 4D applications...'
+        },
+        () => detectApplications(searchRoots)
       );
+      detected.forEach((app) => outputChannel.appendLine(`Found: ${app.path}`));
 
-      if (confirmation !== 'Remove') {
-        outputChannel.appendLine('User cancelled removal');
+      const configuredPaths = new Set(getApplications().map((app) => app.path));
+      const newApps = detected.filter((app) => !configuredPaths.has(app.path));
+
+      if (newApps.length === 0) {
+        vscode.window.showInformationMessage(
+          detected.length === 0
+            ? 'No 4D applications found. Add folders to search in "4d-helper.detection.searchRoots".'
+            : 'All detected 4D applications are already configured.'
+        );
         return;
       }
 
-      // Remove from the appropriate config
-      try {
-        const sourceApps = selectedItem.source === 'user' ? [...userApps] : [...workspaceApps];
-        const filteredApps = sourceApps.filter(
-          app => !(app.name === selectedItem.app.name && app.path === selectedItem.app.path)
-        );
+      // Generate unique names, also against the configured applications
+      const usedNames = new Set(getApplications().map((app) => app.name));
+      const items = newApps.map((app) => {
+        const baseName = generateApplicationName(app);
+        let name = baseName;
+        for (let i = 2; usedNames.has(name); i++) {
+          name = `${baseName} (${i})`;
+        }
+        usedNames.add(name);
+
+        return {
+          label: name,
+          description: [
+            app.version ? formatVersion(app.version) : '',
+            app.build ? `build ${app.build}` : ''
+          ].filter(Boolean).join(' · '),
+          detail: app.path,
+          picked: true,
+          app,
+        };
+      });
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select the 4D applications to add',
+        title: 'Detect Installed Versions',
+        canPickMany: true,
+      });
+      if (!selected || selected.length === 0) {
+        return;
+      }
+
+      const configLevel = await vscode.window.showQuickPick(
+        [
+          {
+            label: 'User Settings',
+            description: 'Available in all workspaces',
+            value: vscode.ConfigurationTarget.Global
+          },
+          {
+            label: 'Workspace Settings',
+            description: 'Only available in this workspace',
+            value: vscode.ConfigurationTarget.Workspace
+          }
+        ],
+        {
+          placeHolder: 'Where do you want to save these 4D versions?',
+          title: 'Configuration Level'
+        }
+      );
+      if (!configLevel) {
+        return;
+      }
+
+      const inspected = config.inspect<FourDApplication[]>('applications');
+      const targetApps = [
+        ...((configLevel.value === vscode.ConfigurationTarget.Global
+          ? inspected?.globalValue
+          : inspected?.workspaceValue) ?? [])
+      ];
+
+      for (const item of selected) {
+        targetApps.push({
+          name: item.label,
+          path: item.app.path,
+          ...(item.app.version ? { version: formatVersion(item.app.version) } : {})
+        });
+      }
 
-        await config.update('applications', filteredApps, selectedItem.configTarget);
-        outputChannel.appendLine('Version removed successfully');
+      try {
+        await config.update('applications', targetApps, configLevel.value);
+        outputChannel.appendLine(`Added ${selected.length} application(s) to ${configLevel.label}`);
         vscode.window.showInformationMessage(
-          `4D version "${selectedItem.label}" removed successfully`
+          `Added ${selected.length} 4D version${selected.length === 1 ? '' : 's'} to ${configLevel.label}`
         );
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
-        outputChannel.appendLine(`Error removing version: ${message}`);
-        vscode.window.showErrorMessage(`Failed to remove version: ${message}`);
+        outputChannel.appendLine(`Error updating configuration: ${message}`);
+        vscode.window.showErrorMessage(`Failed to add versions: ${message}`);
       }
     }
   );
 
   context.subscriptions.push(addVersionCommand);
   context.subscriptions.push(removeVersionCommand);
+  context.subscriptions.push(detectVersionsCommand);
 
   // ============================================
   // Server Connection Commands
@@ -726,39 +1300,8 @@ export function activate(context: vscode.ExtensionContext) {
       outputChannel.appendLine(`Checking ${savedServers.length} saved servers...`);
       for (const server of savedServers) {
         // Use UDP discovery to get both status and server info
-        discover4DServer(server.host, server.port, scanSettings.timeout).then(async (info) => {
-          const key = serverKey(server.host, server.port);
-
-          if (info) {
-            // Server responded to UDP - it's online and we have info
-            // Also check related ports via TCP
-            const relatedPorts: number[] = [];
-            for (let offset = -2; offset <= 2; offset++) {
-              const relatedPort = server.port + offset;
-              if (relatedPort > 0 && relatedPort <= 65535) {
-                const result = await checkPort(server.host, relatedPort, scanSettings.timeout);
-                if (result.isOpen) {
-                  relatedPorts.push(relatedPort);
-                }
-              }
-            }
-
-            savedServersStatus.set(key, {
-              ...server,
-              isOnline: true,
-              discoveryInfo: info,
-              detectedPorts: relatedPorts.sort((a, b) => a - b)
-            });
-          } else {
-            // UDP failed, try TCP as fallback
-            const result = await checkPort(server.host, server.port, scanSettings.timeout);
-            savedServersStatus.set(key, {
-              ...server,
-              isOnline: result.isOpen,
-              responseTime: result.responseTime
-            });
-          }
-
+        checkServerStatus(server, scanSettings.timeout).then((status) => {
+          savedServersStatus.set(serverKey(server.host, server.port), status);
           rebuildItems();
         });
       }
@@ -814,105 +1357,21 @@ export function activate(context: vscode.ExtensionContext) {
 
       outputChannel.appendLine(`Selected server: ${selectedServer.name} (${selectedServer.host}:${selectedServer.port})`);
 
-      // Select 4D client application (filter out servers)
-      const config = vscode.workspace.getConfiguration('4d-helper');
-      const applications = config.get<FourDApplication[]>('applications', []);
-
-      if (applications.length === 0) {
-        const openSettings = 'Open Settings';
-        const result = await vscode.window.showWarningMessage(
-          'No 4D applications configured. Please add applications in settings.',
-          openSettings
-        );
-        if (result === openSettings) {
-          vscode.commands.executeCommand('workbench.action.openSettings', '4d-helper.applications');
-        }
-        return;
-      }
-
-      // Filter to only show client applications
-      const clientApps: FourDApplication[] = [];
-      for (const app of applications) {
-        const isClient = await is4DClient(app.path);
-        if (isClient) {
-          clientApps.push(app);
-        }
-      }
-
-      if (clientApps.length === 0) {
-        vscode.window.showWarningMessage(
-          'No 4D client applications found. Only 4D Server applications are configured.'
-        );
-        return;
-      }
-
-      const appItems = clientApps.map(app => ({
-        label: app.name,
-        description: app.path,
-        path: app.path
-      }));
-
-      const selectedApp = await vscode.window.showQuickPick(appItems, {
-        placeHolder: 'Select a 4D client application',
-        title: 'Connect to 4D Server - Select Client'
-      });
-
-      if (!selectedApp) {
-        outputChannel.appendLine('User cancelled app selection');
+      if (!(await connectWithClient(selectedServer, 'Connect to 4D Server'))) {
         return;
       }
 
-      outputChannel.appendLine(`Selected client: ${selectedApp.label}`);
-
-      // Generate 4DLink file and launch
-      try {
-        const linkPath = await generate4DLink(selectedServer);
-        outputChannel.appendLine(`Generated 4DLink file: ${linkPath}`);
-
-        await open4DProject(selectedApp.path, linkPath, {});
-
-        vscode.window.showInformationMessage(
-          `Connecting to ${selectedServer.name} with ${selectedApp.label}`
+      // If this was a discovered server (not saved), offer to save it
+      if (selectedItem.isDiscovered) {
+        const saveChoice = await vscode.window.showInformationMessage(
+          `Save "${selectedServer.host}:${selectedServer.port}" for quick access?`,
+          'Save',
+          'No thanks'
         );
 
-        // If this was a discovered server (not saved), offer to save it
-        if (selectedItem.isDiscovered) {
-          const saveChoice = await vscode.window.showInformationMessage(
-            `Save "${selectedServer.host}:${selectedServer.port}" for quick access?`,
-            'Save',
-            'No thanks'
-          );
-
-          if (saveChoice === 'Save') {
-            const name = await vscode.window.showInputBox({
-              prompt: 'Enter a display name for this server',
-              value: selectedServer.name,
-              validateInput: (value) => {
-                if (!value || value.trim().length === 0) {
-                  return 'Name cannot be empty';
-                }
-                return null;
-              }
-            });
-
-            if (name) {
-              try {
-                await addServer({
-                  name: name.trim(),
-                  host: selectedServer.host,
-                  port: selectedServer.port
-                });
-                vscode.window.showInformationMessage(`Server "${name.trim()}" saved`);
-              } catch (err) {
-                // Already exists, ignore
-              }
-            }
-          }
+        if (saveChoice === 'Save') {
+          await promptToSaveServer(selectedServer);
         }
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        outputChannel.appendLine(`Error: ${message}`);
-        vscode.window.showErrorMessage(`Failed to connect: ${message}`);
       }
     }
   );
@@ -1198,167 +1657,1983 @@ export function activate(context: vscode.ExtensionContext) {
   context.subscriptions.push(addServerCommand);
   context.subscriptions.push(removeServerCommand);
   context.subscriptions.push(scanServersCommand);
-}
 
-/**
- * Extracts a default name from the application path.
- * For macOS: extracts from .app name
- * For Windows: extracts from .exe name
- */
-function getDefaultAppName(appPath: string): string {
-  const basename = path.basename(appPath);
-  const nameWithoutExt = basename.replace(/\.(app|exe)$/i, '');
-  return nameWithoutExt;
-}
+  // ============================================
+  // Running Instance Commands
+  // ============================================
 
-/**
- * Resolves the project file, handling multiple candidates and saved preferences.
- */
-async function resolveProjectFile(
-  workspaceFolder: vscode.WorkspaceFolder
-): Promise<string | null> {
-  const result = await find4DProjectFile(workspaceFolder.uri.fsPath);
+  const showRunningInstancesCommand = vscode.commands.registerCommand(
+    '4d-helper.showRunningInstances',
+    async () => {
+      outputChannel.appendLine('=== 4D Helper: Show Running Instances Command Started ===');
 
-  if (result === null) {
-    vscode.window.showErrorMessage('No .4DProject file found in workspace');
-    return null;
-  }
+      const instance = await pickRunningInstance('Running 4D Instances');
+      if (!instance) {
+        return;
+      }
 
-  if (typeof result === 'string') {
-    return result;
-  }
+      const action = await vscode.window.showQuickPick(
+        [
+          { label: '$(debug-stop) Stop', description: 'Ask 4D to quit', id: 'stop' as const },
+          { label: '$(close) Force Kill', description: 'Terminate the process immediately', id: 'kill' as const },
+          { label: '$(debug-restart) Restart', description: 'Stop and relaunch with the same options', id: 'restart' as const }
+        ],
+        {
+          placeHolder: `${getAppDisplayName(instance.appPath)} - ${path.basename(instance.projectPath)}`,
+          title: 'Running 4D Instances'
+        }
+      );
 
-  // Multiple projects found - check saved preference
-  const config = vscode.workspace.getConfiguration('4d-helper');
-  const savedProjectPath = config.get<string>('selectedProject');
+      if (!action) {
+        return;
+      }
 
-  if (savedProjectPath) {
-    const savedProject = result.find((p) => p.path === savedProjectPath);
-    if (savedProject) {
-      return savedProject.path;
+      await runInstanceAction(instance, action.id);
     }
-  }
-
-  // Ask user to select
-  const selectedProject = await promptForProjectSelection(result);
-  if (!selectedProject) {
-    return null;
-  }
+  );
 
-  // Save selection to workspace settings
-  await config.update(
-    'selectedProject',
-    selectedProject.path,
-    vscode.ConfigurationTarget.Workspace
+  const stopInstanceCommand = vscode.commands.registerCommand(
+    '4d-helper.stopInstance',
+    async () => {
+      const instance = await pickRunningInstance('Stop 4D Instance');
+      if (instance) {
+        await runInstanceAction(instance, 'stop');
+      }
+    }
   );
 
-  return selectedProject.path;
-}
+  const forceKillInstanceCommand = vscode.commands.registerCommand(
+    '4d-helper.forceKillInstance',
+    async () => {
+      const instance = await pickRunningInstance('Force Kill 4D Instance');
+      if (instance) {
+        await runInstanceAction(instance, 'kill');
+      }
+    }
+  );
 
-/**
- * Prompts the user to select a project from multiple candidates.
- */
-async function promptForProjectSelection(
-  projects: FourDProjectFile[]
-): Promise<FourDProjectFile | undefined> {
-  const items = projects.map((p) => ({
-    label: p.name,
-    description: p.relativePath,
-    detail: `Parent folder: ${p.parentFolder}`,
-    project: p,
-  }));
+  const restartInstanceCommand = vscode.commands.registerCommand(
+    '4d-helper.restartInstance',
+    async () => {
+      const instance = await pickRunningInstance('Restart 4D Instance');
+      if (instance) {
+        await runInstanceAction(instance, 'restart');
+      }
+    }
+  );
 
-  const selected = await vscode.window.showQuickPick(items, {
-    placeHolder: 'Multiple 4D projects found. Select the main project:',
-    title: 'Select 4D Project',
-  });
+  context.subscriptions.push(showRunningInstancesCommand);
+  context.subscriptions.push(stopInstanceCommand);
+  context.subscriptions.push(forceKillInstanceCommand);
+  context.subscriptions.push(restartInstanceCommand);
 
-  return selected?.project;
-}
+  // ============================================
+  // Project Status Bar
+  // ============================================
 
-/**
- * Shows a multi-select QuickPick for launch options with mutual exclusion handling.
- */
-async function selectLaunchOptions(): Promise<LaunchOptionId[] | undefined> {
-  return new Promise((resolve) => {
-    const quickPick = vscode.window.createQuickPick<LaunchOptionItem>();
-    quickPick.title = 'Open 4D Project - Step 2/2: Launch Options';
-    quickPick.placeholder = 'Select launch options (optional), then press Enter';
-    quickPick.canSelectMany = true;
-    quickPick.items = LAUNCH_OPTIONS;
+  refreshStatusBar = registerProjectStatusBar(context, getProjectStatus, '4d-helper.showProjectActions');
 
-    // Set default selection (interpreted mode)
-    const defaultSelected = LAUNCH_OPTIONS.filter((item) => item.picked);
-    quickPick.selectedItems = defaultSelected;
+  const showProjectActionsCommand = vscode.commands.registerCommand(
+    '4d-helper.showProjectActions',
+    async () => {
+      outputChannel.appendLine('=== 4D Helper: Show Project Actions Command Started ===');
 
-    // Track selected items to handle mutual exclusion
-    let previousSelection: readonly LaunchOptionItem[] = defaultSelected;
-    let resolved = false;
+      const { candidates, project } = await findWorkspaceProjects();
+      if (candidates.length === 0) {
+        vscode.window.showInformationMessage('No .4DProject file found in workspace');
+        return;
+      }
+      if (!project) {
+        await changeSelectedProject();
+        return;
+      }
 
-    quickPick.onDidChangeSelection((selectedItems) => {
-      const newlySelected = selectedItems.filter(
-        (item) => !previousSelection.includes(item)
-      );
+      const projectFile = project.path;
+      const launch = getProjectLaunch(projectFile);
+      const instance = getRunningInstances().find((running) => running.projectPath === projectFile);
 
-      if (newlySelected.length > 0) {
-        const newItem = newlySelected[0];
+      type ActionItem = vscode.QuickPickItem & { id: 'launch' | 'relaunch' | 'version' | 'project' };
+      const items: ActionItem[] = [
+        {
+          label: '$(play) Launch',
+          description: launch
+            ? `${launch.application}${summarizeLaunchOptions(launch.options)}`
+            : 'Choose the application and launch options',
+          id: 'launch'
+        },
+        ...(instance
+          ? [{
+            label: '$(debug-restart) Relaunch',
+            description: `Restart the running instance (PID ${instance.pid})`,
+            id: 'relaunch' as const
+          }]
+          : []),
+        {
+          label: '$(versions) Change Version',
+          description: 'Choose the application used by Launch',
+          id: 'version'
+        },
+        {
+          label: '$(file-submodule) Change Project',
+          description: 'Choose the project used by the 4D commands',
+          id: 'project'
+        }
+      ];
 
-        // Handle mutual exclusion for groups
-        if (newItem.group) {
-          const filtered = selectedItems.filter(
-            (item) => item.group !== newItem.group || item.id === newItem.id
-          );
+      const selected = await vscode.window.showQuickPick(items, {
+        title: project.name,
+        placeHolder: project.relativePath
+      });
 
-          if (filtered.length !== selectedItems.length) {
-            quickPick.selectedItems = filtered;
-            previousSelection = filtered;
-            return;
+      switch (selected?.id) {
+        case 'launch':
+          await launchProjectAgain(projectFile, launch);
+          break;
+        case 'relaunch':
+          if (instance) {
+            await runInstanceAction(instance, 'restart');
           }
-        }
+          break;
+        case 'version':
+          await changeProjectApplication(projectFile, launch);
+          break;
+        case 'project':
+          await changeSelectedProject();
+          break;
       }
+    }
+  );
 
-      previousSelection = selectedItems;
-    });
+  context.subscriptions.push(showProjectActionsCommand);
 
-    quickPick.onDidAccept(() => {
-      if (!resolved) {
-        resolved = true;
-        const selected = quickPick.selectedItems.map((item) => item.id);
-        quickPick.hide();
-        quickPick.dispose();
-        resolve(selected);
+  // ============================================
+  // Sidebar Views
+  // ============================================
+
+  const applicationsProvider = new ApplicationsTreeProvider();
+  const projectsProvider = new ProjectsTreeProvider();
+  const serversProvider = new ServersTreeProvider();
+
+  const serversView = vscode.window.createTreeView(SERVERS_VIEW, { treeDataProvider: serversProvider });
+  const serverStatusInterval = () =>
+    vscode.workspace.getConfiguration('4d-helper').get<number>('views.serverStatusInterval', 30);
+
+  // Server status is only checked while the view is visible
+  serversView.onDidChangeVisibility((event) => {
+    serversProvider.setAutoRefresh(event.visible ? serverStatusInterval() : undefined);
+  });
+  if (serversView.visible) {
+    serversProvider.setAutoRefresh(serverStatusInterval());
+  }
+
+  context.subscriptions.push(
+    vscode.window.createTreeView(APPLICATIONS_VIEW, { treeDataProvider: applicationsProvider }),
+    vscode.window.createTreeView(PROJECTS_VIEW, { treeDataProvider: projectsProvider }),
+    serversView,
+    serversProvider,
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('4d-helper.applications')) {
+        applicationsProvider.refresh();
       }
-    });
+      if (event.affectsConfiguration('4d-helper.selectedProject')) {
+        projectsProvider.refresh();
+      }
+      if (event.affectsConfiguration('4d-helper.servers')) {
+        serversProvider.refresh();
+      }
+      if (event.affectsConfiguration('4d-helper.views.serverStatusInterval') && serversView.visible) {
+        serversProvider.setAutoRefresh(serverStatusInterval());
+      }
+    }),
+    onDidChangeProjects(() => projectsProvider.refresh())
+  );
 
-    quickPick.onDidHide(() => {
-      if (!resolved) {
-        resolved = true;
-        quickPick.dispose();
-        resolve(undefined);
+  context.subscriptions.push(
+    vscode.commands.registerCommand('4d-helper.refreshApplications', () => {
+      clearApplicationKindCache();
+      applicationsProvider.refresh();
+    }),
+
+    vscode.commands.registerCommand('4d-helper.openProjectWithApplication', async (node?: ApplicationNode) => {
+      if (node?.type !== 'application') {
+        return;
       }
-    });
+      outputChannel.show(true);
+      outputChannel.appendLine('=== 4D Helper: Open Project With Application Command Started ===');
 
-    quickPick.show();
-  });
-}
+      const projectFile = await resolveProjectFile();
+      if (projectFile) {
+        await openProjectInteractively(projectFile, 'Open 4D Project', { app: node.app });
+      }
+    }),
 
-/**
- * Creates a summary string of the selected launch options.
- */
-function summarizeLaunchOptions(options: LaunchOptions): string {
-  const parts: string[] = [];
+    vscode.commands.registerCommand('4d-helper.removeApplication', async (node?: ApplicationNode) => {
+      if (node?.type === 'application') {
+        await removeConfiguredApplication(node.app, node.scope);
+      }
+    }),
 
-  if (options.openingMode) {
-    parts.push(options.openingMode);
-  }
+    vscode.commands.registerCommand('4d-helper.refreshProjects', () => projectsProvider.refresh()),
 
-  if (options.skipOnStartup) {
-    parts.push('skip startup');
-  }
+    vscode.commands.registerCommand('4d-helper.launchProject', async (node?: ProjectNode) => {
+      if (node?.type !== 'project') {
+        return;
+      }
+      outputChannel.show(true);
+      outputChannel.appendLine('=== 4D Helper: Launch Project Command Started ===');
+      outputChannel.appendLine(`Project file: ${node.project.path}`);
 
-  if (options.headless) {
-    parts.push('headless');
-  }
+      await openProjectInteractively(node.project.path, 'Open 4D Project');
+    }),
+
+    vscode.commands.registerCommand('4d-helper.selectProject', async (node?: ProjectNode) => {
+      if (node?.type === 'project') {
+        await selectProject(node.folder, node.project);
+      }
+    }),
+
+    vscode.commands.registerCommand('4d-helper.refreshServers', () => serversProvider.refresh()),
+
+    vscode.commands.registerCommand('4d-helper.rescanServers', async () => {
+      try {
+        await serversProvider.rescan();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        outputChannel.appendLine(`Scan error: ${message}`);
+        vscode.window.showErrorMessage(`Failed to scan the network: ${message}`);
+      }
+    }),
+
+    vscode.commands.registerCommand('4d-helper.connectServer', async (node?: ServerNode) => {
+      if (node?.type !== 'server') {
+        return;
+      }
+      outputChannel.appendLine('=== 4D Helper: Connect Server Command Started ===');
+      outputChannel.appendLine(`Selected server: ${node.server.name} (${node.server.host}:${node.server.port})`);
+
+      await connectWithClient(node.server, `Connect to ${node.server.name}`);
+    }),
+
+    vscode.commands.registerCommand('4d-helper.saveServer', async (node?: ServerNode) => {
+      if (node?.type === 'server') {
+        await promptToSaveServer(node.server);
+      }
+    }),
+
+    vscode.commands.registerCommand('4d-helper.removeSavedServer', async (node?: ServerNode) => {
+      if (node?.type !== 'server') {
+        return;
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Are you sure you want to remove "${node.server.name}"?`,
+        { modal: true },
+        'Remove',
+        'Cancel'
+      );
+      if (confirm !== 'Remove') {
+        return;
+      }
+
+      try {
+        await removeServer(node.server.host, node.server.port);
+        outputChannel.appendLine(`Server removed: ${node.server.name}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Failed to remove server: ${message}`);
+      }
+    })
+  );
+
+  // ============================================
+  // Components
+  // ============================================
+
+  const componentsProvider = new ComponentsTreeProvider();
+
+  // Dependencies and environment files change which components are used
+  const dependencyWatcher = vscode.workspace.createFileSystemWatcher('**/{dependencies,environment4d}.json');
+  dependencyWatcher.onDidCreate(() => componentsProvider.refresh());
+  dependencyWatcher.onDidChange(() => componentsProvider.refresh());
+  dependencyWatcher.onDidDelete(() => componentsProvider.refresh());
+
+  context.subscriptions.push(
+    vscode.window.createTreeView(COMPONENTS_VIEW, { treeDataProvider: componentsProvider }),
+    dependencyWatcher,
+    onDidChangeProjects(() => componentsProvider.refresh()),
+
+    vscode.commands.registerCommand('4d-helper.refreshComponents', () => componentsProvider.refresh()),
+
+    vscode.commands.registerCommand('4d-helper.openComponent', async (node?: ComponentNode) => {
+      outputChannel.show(true);
+      outputChannel.appendLine('=== 4D Helper: Open Component Command Started ===');
+
+      let component = node?.type === 'component' ? node.component : undefined;
+      if (!component) {
+        const projectFile = await resolveProjectFile();
+        if (!projectFile) {
+          return;
+        }
+        component = await pickComponent(projectFile);
+      }
+      if (!component) {
+        return;
+      }
+      if (!component.projectFile) {
+        vscode.window.showWarningMessage(
+          `Component "${component.name}" is ${component.kind === 'built' ? 'built' : 'not found'}: there is no project to open.`
+        );
+        return;
+      }
+      outputChannel.appendLine(`Component project: ${component.projectFile}`);
+
+      await openProjectInteractively(component.projectFile, `Open Component ${component.name}`);
+    }),
+
+    vscode.commands.registerCommand('4d-helper.revealComponent', (node?: ComponentNode) => {
+      const location = node?.type === 'component' ? node.component.path : undefined;
+      if (location) {
+        vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(location));
+      }
+    })
+  );
+
+  // ============================================
+  // Compile Command
+  // ============================================
+
+  const compilerDiagnostics = vscode.languages.createDiagnosticCollection('4d-compiler');
+  context.subscriptions.push(compilerDiagnostics);
+
+  const compileProjectCommand = vscode.commands.registerCommand(
+    '4d-helper.compileProject',
+    async () => {
+      outputChannel.appendLine('=== 4D Helper: Compile Project Command Started ===');
+      outputChannel.appendLine(`Timestamp: ${new Date().toISOString()}`);
+
+      const projectFile = await resolveProjectFile();
+      if (!projectFile) {
+        return;
+      }
+
+      const app = await pickHeadlessApplication('Compile Project - Select Application');
+      if (!app) {
+        return;
+      }
+
+      const config = vscode.workspace.getConfiguration('4d-helper');
+      const settings = {
+        startupMethod: config.get<string>('compile.startupMethod', ''),
+        timeout: config.get<number>('compile.timeout', 300),
+      };
+
+      let result: CompileResult;
+      try {
+        result = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: `Compiling ${path.basename(projectFile)} with ${app.name}...`,
+            cancellable: true
+          },
+          (_progress, token) =>
+            compileProject(app.path, projectFile, settings, () => token.isCancellationRequested)
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        outputChannel.appendLine(`Compilation error: ${message}`);
+        vscode.window.showErrorMessage(`Failed to compile project: ${message}`);
+        return;
+      }
+
+      showCompilerDiagnostics(compilerDiagnostics, result, projectFile);
+
+      const errorCount = result.errors.filter((e) => e.isError).length;
+      const warningCount = result.errors.length - errorCount;
+      const summary = `${errorCount} error${errorCount === 1 ? '' : 's'}, ${warningCount} warning${warningCount === 1 ? '' : 's'}`;
+      outputChannel.appendLine(`Compilation ${result.success ? 'succeeded' : 'failed'}: ${summary}`);
+
+      const showProblems = 'Show Problems';
+      const choice = result.success
+        ? await vscode.window.showInformationMessage(
+          `Compilation succeeded (${summary})`,
+          ...(warningCount > 0 ? [showProblems] : [])
+        )
+        : await vscode.window.showErrorMessage(`Compilation failed (${summary})`, showProblems);
+
+      if (choice === showProblems) {
+        vscode.commands.executeCommand('workbench.actions.view.problems');
+      }
+    }
+  );
+
+  context.subscriptions.push(compileProjectCommand);
+
+  // ============================================
+  // Data Snapshot Commands
+  // ============================================
+
+  const snapshotDataCommand = vscode.commands.registerCommand(
+    '4d-helper.snapshotData',
+    async () => {
+      outputChannel.appendLine('=== 4D Helper: Snapshot Data Command Started ===');
+
+      const projectFile = await resolveProjectFile();
+      if (!projectFile) {
+        return;
+      }
+
+      const dataFile = await promptForDataFile(projectFile);
+      if (!dataFile) {
+        return;
+      }
+
+      const label = await vscode.window.showInputBox({
+        prompt: 'Enter a label for this snapshot (optional)',
+        placeHolder: 'e.g., Before migration',
+      });
+      if (label === undefined) {
+        return;
+      }
+
+      try {
+        const snapshot = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: `Taking a snapshot of ${path.basename(dataFile)}...`
+          },
+          () => createSnapshot(dataFile, label.trim() || undefined)
+        );
+        outputChannel.appendLine(`Snapshot of ${dataFile} saved to ${snapshot.directory}`);
+        vscode.window.showInformationMessage(
+          `Snapshot of ${path.basename(dataFile)} saved (${formatFileSize(snapshot.size)})`
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        outputChannel.appendLine(`Error: ${message}`);
+        vscode.window.showErrorMessage(`Failed to snapshot data: ${message}`);
+      }
+    }
+  );
+
+  const showDataSnapshotsCommand = vscode.commands.registerCommand(
+    '4d-helper.showDataSnapshots',
+    async () => {
+      const snapshot = await pickDataSnapshot('Data Snapshots');
+      if (!snapshot) {
+        return;
+      }
+
+      const action = await vscode.window.showQuickPick(
+        [
+          { label: '$(history) Restore', description: 'Replace the data file with this snapshot', id: 'restore' as const },
+          { label: '$(folder-opened) Reveal', description: 'Show the snapshot folder', id: 'reveal' as const },
+          { label: '$(trash) Delete', description: 'Delete this snapshot', id: 'delete' as const }
+        ],
+        {
+          placeHolder: formatSnapshotLabel(snapshot),
+          title: 'Data Snapshots'
+        }
+      );
+
+      if (action?.id === 'restore') {
+        await restoreDataSnapshot(snapshot);
+      } else if (action?.id === 'reveal') {
+        vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(snapshot.directory));
+      } else if (action?.id === 'delete') {
+        const confirm = await vscode.window.showWarningMessage(
+          `Delete snapshot "${formatSnapshotLabel(snapshot)}"?`,
+          { modal: true },
+          'Delete'
+        );
+        if (confirm !== 'Delete') {
+          return;
+        }
+        await deleteSnapshot(snapshot);
+        vscode.window.showInformationMessage(`Deleted snapshot "${formatSnapshotLabel(snapshot)}"`);
+      }
+    }
+  );
+
+  const restoreDataSnapshotCommand = vscode.commands.registerCommand(
+    '4d-helper.restoreDataSnapshot',
+    async () => {
+      const snapshot = await pickDataSnapshot('Restore Data Snapshot');
+      if (snapshot) {
+        await restoreDataSnapshot(snapshot);
+      }
+    }
+  );
+
+  context.subscriptions.push(snapshotDataCommand);
+  context.subscriptions.push(showDataSnapshotsCommand);
+  context.subscriptions.push(restoreDataSnapshotCommand);
+
+  // Test Explorer integration
+  registerTestController(context, () => pickHeadlessApplication('Run 4D Tests - Select Application'));
+}
+
+/**
+ * Prompts for the application used for headless runs (compilation, tests),
+ * preselecting tool4d. Skips the prompt when a single application is configured.
+ */
+async function pickHeadlessApplication(title: string): Promise<FourDApplication | undefined> {
+  const configuredApps = getApplications();
+  if (configuredApps.length === 0) {
+    showNoApplicationsWarning();
+    return undefined;
+  }
+
+  // tool4d is made for headless runs; fall back to 4D when none is configured
+  let applications = await filterApplicationsByKind(configuredApps, ['tool4d']);
+  if (applications.length === 0) {
+    applications = await filterApplicationsByKind(configuredApps, ['ide']);
+  }
+
+  if (applications.length === 0) {
+    vscode.window.showWarningMessage('No tool4d or 4D application configured to run the project headless.');
+    return undefined;
+  }
+
+  if (applications.length === 1) {
+    return applications[0];
+  }
+
+  return promptForApplication(applications, title);
+}
+
+/**
+ * Prompts the user to select a data snapshot.
+ */
+async function pickDataSnapshot(title: string): Promise<DataSnapshot | undefined> {
+  const snapshots = await listSnapshots();
+
+  if (snapshots.length === 0) {
+    const snapshot = 'Snapshot Data';
+    const result = await vscode.window.showInformationMessage('No data snapshots found.', snapshot);
+    if (result === snapshot) {
+      vscode.commands.executeCommand('4d-helper.snapshotData');
+    }
+    return undefined;
+  }
+
+  const items = snapshots.map((snapshot) => ({
+    label: `$(database) ${formatSnapshotLabel(snapshot)}`,
+    description: `${path.basename(snapshot.dataFile)} · ${formatFileSize(snapshot.size)}`,
+    detail: snapshot.dataFile,
+    snapshot,
+  }));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Select a snapshot',
+    title,
+    matchOnDetail: true,
+  });
+
+  return selected?.snapshot;
+}
+
+function formatSnapshotLabel(snapshot: DataSnapshot): string {
+  const date = new Date(snapshot.createdAt).toLocaleString();
+  return snapshot.label ? `${snapshot.label} (${date})` : date;
+}
+
+/**
+ * Restores a snapshot after checking that no running instance uses its data
+ * file, offering to snapshot the current data first.
+ */
+async function restoreDataSnapshot(snapshot: DataSnapshot): Promise<void> {
+  for (const instance of getRunningInstances()) {
+    const dataFile = await resolveLaunchDataFile(instance.projectPath, instance.options);
+    if (dataFile && path.resolve(dataFile) === path.resolve(snapshot.dataFile)) {
+      vscode.window.showErrorMessage(
+        `${path.basename(snapshot.dataFile)} is open in ${getAppDisplayName(instance.appPath)}. Stop the instance before restoring.`
+      );
+      return;
+    }
+  }
+
+  const restore = 'Restore';
+  const snapshotFirst = 'Snapshot Current Data, Then Restore';
+  const choice = await vscode.window.showWarningMessage(
+    `Replace ${snapshot.dataFile} with the snapshot "${formatSnapshotLabel(snapshot)}"?`,
+    { modal: true, detail: 'The current data file, index and journal will be overwritten.' },
+    restore,
+    snapshotFirst
+  );
+  if (!choice) {
+    return;
+  }
+
+  try {
+    if (choice === snapshotFirst) {
+      await createSnapshot(snapshot.dataFile, 'Before restore');
+    }
+    await restoreSnapshot(snapshot);
+    outputChannel.appendLine(`Restored ${snapshot.dataFile} from ${snapshot.directory}`);
+    vscode.window.showInformationMessage(
+      `Restored ${path.basename(snapshot.dataFile)} from "${formatSnapshotLabel(snapshot)}"`
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    outputChannel.appendLine(`Error: ${message}`);
+    vscode.window.showErrorMessage(`Failed to restore snapshot: ${message}`);
+  }
+}
+
+/**
+ * Replaces the compiler diagnostics with the messages of a compilation.
+ * Messages without a known source file are attached to the project file.
+ */
+function showCompilerDiagnostics(
+  collection: vscode.DiagnosticCollection,
+  result: CompileResult,
+  projectFile: string
+): void {
+  collection.clear();
+
+  const byFile = new Map<string, vscode.Diagnostic[]>();
+
+  for (const error of result.errors) {
+    const line = error.line ? error.line - 1 : 0;
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER),
+      error.file ? error.message : `${error.methodName ? `${error.methodName}: ` : ''}${error.message}`,
+      error.isError ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.source = '4D Compiler';
+
+    const file = error.file ?? projectFile;
+    byFile.set(file, [...(byFile.get(file) ?? []), diagnostic]);
+  }
+
+  for (const [file, diagnostics] of byFile) {
+    collection.set(vscode.Uri.file(file), diagnostics);
+  }
+}
+
+/**
+ * Prompts the user to select a launch profile.
+ */
+async function pickLaunchProfile(title: string): Promise<ScopedLaunchProfile | undefined> {
+  const profiles = getLaunchProfiles();
+
+  if (profiles.length === 0) {
+    const save = 'Save Profile';
+    const result = await vscode.window.showInformationMessage(
+      'No launch profiles configured.',
+      save
+    );
+    if (result === save) {
+      vscode.commands.executeCommand('4d-helper.saveLaunchProfile');
+    }
+    return undefined;
+  }
+
+  const items = profiles.map((profile) => ({
+    label: profile.name,
+    description: `${profile.application}${summarizeLaunchOptions(profile.options)}`,
+    detail: profile.target === vscode.ConfigurationTarget.Global ? 'User Settings' : 'Workspace Settings',
+    profile,
+  }));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Select a launch profile',
+    title,
+  });
+
+  return selected?.profile;
+}
+
+/**
+ * Prompts for the application and options of a profile.
+ */
+async function promptForProfileSettings(
+  title: string,
+  initial?: LaunchProfile
+): Promise<Omit<LaunchProfile, 'name'> | undefined> {
+  const configuredApps = getApplications();
+
+  if (configuredApps.length === 0) {
+    showNoApplicationsWarning();
+    return undefined;
+  }
+
+  const applications = await filterApplicationsByKind(configuredApps, PROJECT_KINDS);
+  if (applications.length === 0) {
+    vscode.window.showWarningMessage('No 4D or tool4d application configured to open the project.');
+    return undefined;
+  }
+
+  const app = await promptForApplication(applications, `${title} - Select Application`, initial?.application);
+  if (!app) {
+    return undefined;
+  }
+
+  const projectFile = vscode.workspace.workspaceFolders?.length ? await resolveProjectFile() : null;
+
+  const options = await promptForLaunchOptions(
+    `${title} - Launch Options`,
+    projectFile ?? undefined,
+    initial?.options
+  );
+  if (!options) {
+    return undefined;
+  }
+
+  return { application: app.name, options };
+}
+
+/**
+ * Prompts for the name of a launch profile. Names in `unavailableNames` are
+ * rejected.
+ */
+async function promptForProfileName(
+  value?: string,
+  unavailableNames: string[] = []
+): Promise<string | undefined> {
+  const name = await vscode.window.showInputBox({
+    prompt: 'Enter a name for this launch profile',
+    value,
+    placeHolder: 'e.g., Interpreted with test data',
+    validateInput: (input) => {
+      if (!input || input.trim().length === 0) {
+        return 'Name cannot be empty';
+      }
+      if (unavailableNames.includes(input.trim())) {
+        return `A profile named "${input.trim()}" already exists`;
+      }
+      return null;
+    }
+  });
+
+  return name?.trim();
+}
+
+/**
+ * Returns the configured display name of an application, or its file name.
+ */
+function getAppDisplayName(appPath: string): string {
+  return getApplications().find((app) => app.path === appPath)?.name ?? getDefaultAppName(appPath);
+}
+
+/**
+ * Prompts the user to select one of the 4D instances launched by the extension.
+ */
+async function pickRunningInstance(
+  title: string
+): Promise<Running4DInstance | undefined> {
+  const instances = getRunningInstances();
+
+  if (instances.length === 0) {
+    vscode.window.showInformationMessage('No running 4D instances launched from VS Code.');
+    return undefined;
+  }
+
+  const items = instances.map((instance) => ({
+    label: `$(play-circle) ${getAppDisplayName(instance.appPath)}`,
+    description: path.basename(instance.projectPath),
+    detail: `PID ${instance.pid} · started ${new Date(instance.startTime).toLocaleTimeString()} (${formatUptime(instance)})${summarizeLaunchOptions(instance.options)}`,
+    instance,
+  }));
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: 'Select a 4D instance',
+    title,
+  });
+
+  return selected?.instance;
+}
+
+/**
+ * Stops, kills or restarts a running instance.
+ */
+async function runInstanceAction(
+  instance: Running4DInstance,
+  action: 'stop' | 'kill' | 'restart'
+): Promise<void> {
+  const appName = getAppDisplayName(instance.appPath);
+  outputChannel.appendLine(`Instance #${instance.id} (PID ${instance.pid}): ${action}`);
+
+  try {
+    await stopInstance(instance, action === 'kill');
+
+    if (action !== 'restart') {
+      vscode.window.showInformationMessage(
+        action === 'kill' ? `${appName} was terminated` : `Asked ${appName} to quit`
+      );
+      return;
+    }
+
+    const exited = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Restarting ${appName}: waiting for the instance to quit...`
+      },
+      () => waitForExit(instance)
+    );
+
+    if (!exited) {
+      vscode.window.showErrorMessage(
+        `${appName} did not quit in time. Use "Force Kill" and try again.`
+      );
+      return;
+    }
+
+    const relaunched = await open4DProject(instance.appPath, instance.projectPath, instance.options);
+    await watchLaunch(relaunched, appName, instance.options, {
+      startedMessage: `Restarted ${path.basename(instance.projectPath)} with ${appName}${summarizeLaunchOptions(instance.options)}`
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    outputChannel.appendLine(`Error: ${message}`);
+    vscode.window.showErrorMessage(`Failed to ${action} instance: ${message}`);
+  }
+}
+
+/**
+ * Extracts a default name from the application path.
+ * For macOS: extracts from .app name
+ * For Windows: extracts from .exe name
+ */
+function getDefaultAppName(appPath: string): string {
+  const basename = path.basename(appPath);
+  const nameWithoutExt = basename.replace(/\.(app|exe)$/i, '');
+  return nameWithoutExt;
+}
+
+/**
+ * Connects to a server with a client application chosen by the user, through
+ * a generated 4DLink file.
+ *
+ * @returns true if the client was launched
+ */
+async function connectWithClient(server: Server4D, title: string): Promise<boolean> {
+  // Select 4D client application (filter out servers)
+  const applications = getApplications();
+
+  if (applications.length === 0) {
+    showNoApplicationsWarning();
+    return false;
+  }
+
+  // Filter to only show client applications (4D and Volume Desktop)
+  const clientApps = await filterApplicationsByKind(applications, CLIENT_KINDS);
+
+  if (clientApps.length === 0) {
+    vscode.window.showWarningMessage(
+      'No 4D client applications found. Only 4D Server or tool4d applications are configured.'
+    );
+    return false;
+  }
+
+  const selectedApp = await promptForApplication(clientApps, `${title} - Select Client`);
+
+  if (!selectedApp) {
+    outputChannel.appendLine('User cancelled app selection');
+    return false;
+  }
+
+  outputChannel.appendLine(`Selected client: ${selectedApp.name}`);
+
+  // Generate 4DLink file and launch
+  try {
+    const linkPath = await generate4DLink(server);
+    outputChannel.appendLine(`Generated 4DLink file: ${linkPath}`);
+
+    await open4DProject(selectedApp.path, linkPath, {});
+
+    vscode.window.showInformationMessage(
+      `Connecting to ${server.name} with ${selectedApp.name}`
+    );
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    outputChannel.appendLine(`Error: ${message}`);
+    vscode.window.showErrorMessage(`Failed to connect: ${message}`);
+    return false;
+  }
+}
+
+/**
+ * Asks for a display name and adds a server to the saved servers.
+ */
+async function promptToSaveServer(server: Server4D): Promise<void> {
+  const name = await vscode.window.showInputBox({
+    prompt: 'Enter a display name for this server',
+    value: server.name,
+    validateInput: (value) => {
+      if (!value || value.trim().length === 0) {
+        return 'Name cannot be empty';
+      }
+      return null;
+    }
+  });
+
+  if (name) {
+    try {
+      await addServer({
+        name: name.trim(),
+        host: server.host,
+        port: server.port
+      });
+      vscode.window.showInformationMessage(`Server "${name.trim()}" saved`);
+    } catch (err) {
+      // Already exists, ignore
+    }
+  }
+}
+
+/**
+ * Prompts for one of the components used by a project, source components first.
+ */
+async function pickComponent(projectFile: string): Promise<FourDComponent | undefined> {
+  const components = await findProjectComponents(projectFile);
+  if (components.length === 0) {
+    vscode.window.showInformationMessage(`${path.basename(projectFile, '.4DProject')} uses no component.`);
+    return undefined;
+  }
+
+  type ComponentItem = vscode.QuickPickItem & { component?: FourDComponent };
+  const items: ComponentItem[] = [];
+  const groups: [FourDComponent['kind'], string, string][] = [
+    ['source', 'Source Components', '$(file-code)'],
+    ['built', 'Built Components', '$(package)'],
+    ['notFound', 'Not Found', '$(warning)'],
+  ];
+  for (const [kind, label, icon] of groups) {
+    const group = components.filter((component) => component.kind === kind);
+    if (group.length > 0) {
+      items.push({ label, kind: vscode.QuickPickItemKind.Separator });
+      items.push(...group.map((component) => ({
+        label: `${icon} ${component.name}`,
+        description: component.declaredIn === 'dependencies' ? 'dependencies.json' : 'Components',
+        detail: component.projectFile ?? component.builtFile ?? component.github,
+        component,
+      })));
+    }
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    title: 'Open Component - Select Component',
+    placeHolder: 'Select the component to open on its own',
+    matchOnDetail: true,
+  });
+  return selected?.component;
+}
+
+/**
+ * Returns the path of the file a context menu command was invoked on, or of
+ * the active editor when invoked from the Command Palette. Shows an error if
+ * it does not have the expected extension.
+ */
+function getContextFile(uri: vscode.Uri | undefined, extension: string): string | undefined {
+  const file = (uri ?? vscode.window.activeTextEditor?.document.uri)?.fsPath;
+  if (!file || path.extname(file).toLowerCase() !== extension.toLowerCase()) {
+    vscode.window.showErrorMessage(`Select a ${extension} file`);
+    return undefined;
+  }
+  return file;
+}
+
+/**
+ * Opens a project after selecting the application, preselecting the one
+ * matching the project version, and the launch options unless they are given.
+ */
+async function openProjectInteractively(
+  projectFile: string,
+  title: string,
+  preset: { app?: FourDApplication; options?: LaunchOptions } = {}
+): Promise<void> {
+  // Get 4D applications from settings
+  outputChannel.appendLine('Getting 4D applications from settings...');
+  const config = vscode.workspace.getConfiguration('4d-helper');
+  const configuredApps = config.get<FourDApplication[]>('applications', []);
+  outputChannel.appendLine(`Found ${configuredApps.length} applications`);
+
+  if (configuredApps.length === 0) {
+    outputChannel.appendLine('ERROR: No applications configured');
+    showNoApplicationsWarning();
+    return;
+  }
+
+  // 4D Server and Volume Desktop cannot open a project here
+  const applications = await filterApplicationsByKind(configuredApps, PROJECT_KINDS);
+  if (applications.length === 0) {
+    outputChannel.appendLine('ERROR: No 4D or tool4d application configured');
+    vscode.window.showWarningMessage(
+      'No 4D or tool4d application configured. 4D Server and 4D Volume Desktop cannot open a project.'
+    );
+    return;
+  }
+
+  // Preselect the application matching the version the project was saved with
+  const projectVersion = await readProjectVersion(projectFile);
+  const matchingApp = projectVersion ? await findMatchingApplication(applications, projectVersion) : undefined;
+  if (projectVersion) {
+    outputChannel.appendLine(
+      `Project version: ${formatVersion(projectVersion)}${matchingApp ? `, matching app: ${matchingApp.name}` : ''}`
+    );
+  }
+
+  // Select 4D application
+  const bothSteps = !preset.app && !preset.options;
+  let selectedApp = preset.app;
+  if (!selectedApp) {
+    outputChannel.appendLine('Showing app selection...');
+    selectedApp = await promptForApplication(
+      applications,
+      bothSteps ? `${title} - Step 1/2: Select Application` : `${title} - Select Application`,
+      matchingApp?.name,
+      matchingApp && { name: matchingApp.name, description: 'matches project version' }
+    );
+
+    if (!selectedApp) {
+      outputChannel.appendLine('User cancelled app selection');
+      return;
+    }
+  }
+  outputChannel.appendLine(`Selected app: ${selectedApp.name} (${selectedApp.path})`);
+
+  if (projectVersion && !(await confirmVersionCompatibility(selectedApp, projectFile, projectVersion))) {
+    outputChannel.appendLine('User cancelled because of version mismatch');
+    return;
+  }
+
+  // Select launch options with multi-select
+  let options = preset.options;
+  if (!options) {
+    outputChannel.appendLine('Showing launch options...');
+    options = await promptForLaunchOptions(
+      bothSteps ? `${title} - Step 2/2: Launch Options` : `${title} - Launch Options`,
+      projectFile
+    );
+    if (options === undefined) {
+      outputChannel.appendLine('User cancelled options selection');
+      return; // User cancelled
+    }
+  }
+
+  // Launch 4D
+  outputChannel.appendLine(`Built options: ${JSON.stringify(options)}`);
+  outputChannel.appendLine('Calling open4DProject...');
+  try {
+    const instance = await open4DProject(selectedApp.path, projectFile, options);
+    lastLaunch = { application: selectedApp.name, options };
+    await rememberProjectLaunch(projectFile, { application: selectedApp.name, options });
+
+    const optionsSummary = summarizeLaunchOptions(options);
+    await watchLaunch(instance, selectedApp.name, options, {
+      startedMessage: `Opened project with ${selectedApp.name}${optionsSummary}`
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : 'Unknown error';
+    outputChannel.appendLine(`Error: ${message}`);
+    vscode.window.showErrorMessage(`Failed to open project: ${message}`);
+  }
+}
+
+/**
+ * Resolves the project file, handling multiple candidates and saved preferences.
+ * All workspace folders are searched. When several folders contain projects,
+ * the folder of the resource (by default the active editor) is used, otherwise
+ * the user picks a project. The selection is saved per folder.
+ */
+async function resolveProjectFile(resource?: vscode.Uri): Promise<string | null> {
+  if (!vscode.workspace.workspaceFolders?.length) {
+    vscode.window.showErrorMessage('No workspace folder open');
+    return null;
+  }
+
+  const { candidates, project } = await findWorkspaceProjects(resource);
+  if (candidates.length === 0) {
+    vscode.window.showErrorMessage('No .4DProject file found in workspace');
+    return null;
+  }
+  if (project) {
+    return project.path;
+  }
+
+  // Ask user to select
+  const selected = await promptForProjectSelection(candidates);
+  if (!selected) {
+    return null;
+  }
+
+  await selectProject(selected.folder, selected.project);
+  return selected.project.path;
+}
+
+/**
+ * Saves the project used by the 4D commands in its folder, and remembers the
+ * folder for when the active editor is outside of the project folders.
+ */
+async function selectProject(folder: vscode.WorkspaceFolder, project: FourDProjectFile): Promise<void> {
+  await saveSelectedProject(folder, project);
+  await workspaceState.update(LAST_PROJECT_FOLDER_KEY, folder.uri.toString());
+  refreshStatusBar();
+}
+
+/**
+ * Finds the projects of the workspace folders, without prompting.
+ * When several folders contain projects, only those of the folder of the
+ * resource (by default the active editor) are candidates, if it has any.
+ * Otherwise the project of the folder a project was last selected in is used.
+ *
+ * @returns The candidates grouped by folder, and the project to use if no
+ *          choice is needed
+ */
+async function findWorkspaceProjects(
+  resource?: vscode.Uri
+): Promise<{ candidates: FolderProjects[]; project?: FourDProjectFile }> {
+  const found = await findProjectsByFolder();
+
+  let candidates = found;
+  if (found.length > 1) {
+    const activeUri = resource ?? vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = activeUri && vscode.workspace.getWorkspaceFolder(activeUri);
+    const active = found.find((entry) => entry.folder.uri.toString() === activeFolder?.uri.toString());
+    if (active) {
+      candidates = [active];
+    } else {
+      const lastFolder = workspaceState.get<string>(LAST_PROJECT_FOLDER_KEY);
+      const last = found.find((entry) => entry.folder.uri.toString() === lastFolder);
+      const project = last && getPreferredProject(last);
+      if (project) {
+        return { candidates, project };
+      }
+    }
+  }
+
+  return {
+    candidates,
+    project: candidates.length === 1 ? getPreferredProject(candidates[0]) : undefined,
+  };
+}
+
+/**
+ * Remembers the application and options a project was opened with, used by
+ * the status bar item.
+ */
+async function rememberProjectLaunch(
+  projectFile: string,
+  launch: Omit<LaunchProfile, 'name'>
+): Promise<void> {
+  const launches = workspaceState.get<Record<string, Omit<LaunchProfile, 'name'>>>(PROJECT_LAUNCHES_KEY, {});
+  await workspaceState.update(PROJECT_LAUNCHES_KEY, { ...launches, [projectFile]: launch });
+  refreshStatusBar();
+}
+
+/**
+ * Returns what the project status bar item shows: the project the launch
+ * commands use and the application it was last opened with.
+ */
+async function getProjectStatus(): Promise<ProjectStatus> {
+  const { candidates, project } = await findWorkspaceProjects();
+  return {
+    hasProjects: candidates.length > 0,
+    projectFile: project?.path,
+    application: project ? getProjectLaunch(project.path)?.application : undefined,
+  };
+}
+
+/**
+ * Opens a project with the application and options it was last opened with,
+ * or asks for them if there is no previous launch or its application is no
+ * longer configured.
+ */
+async function launchProjectAgain(
+  projectFile: string,
+  launch: Omit<LaunchProfile, 'name'> | undefined
+): Promise<void> {
+  const app = launch ? findApplicationByName(launch.application) : undefined;
+  if (!launch || !app) {
+    await openProjectInteractively(projectFile, 'Open 4D Project');
+    return;
+  }
+
+  try {
+    const instance = await open4DProject(app.path, projectFile, launch.options);
+    lastLaunch = launch;
+    await rememberProjectLaunch(projectFile, launch);
+    await watchLaunch(instance, app.name, launch.options, {
+      startedMessage: `Opened project with ${app.name}${summarizeLaunchOptions(launch.options)}`
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    outputChannel.appendLine(`Error: ${message}`);
+    vscode.window.showErrorMessage(`Failed to open project: ${message}`);
+  }
+}
+
+/**
+ * Chooses the application used to launch a project from the status bar,
+ * keeping the options of its last launch.
+ */
+async function changeProjectApplication(
+  projectFile: string,
+  launch: Omit<LaunchProfile, 'name'> | undefined
+): Promise<void> {
+  const configuredApps = getApplications();
+  if (configuredApps.length === 0) {
+    showNoApplicationsWarning();
+    return;
+  }
+
+  const applications = await filterApplicationsByKind(configuredApps, PROJECT_KINDS);
+  if (applications.length === 0) {
+    vscode.window.showWarningMessage(
+      'No 4D or tool4d application configured. 4D Server and 4D Volume Desktop cannot open a project.'
+    );
+    return;
+  }
+
+  const projectVersion = await readProjectVersion(projectFile);
+  const matchingApp = projectVersion ? await findMatchingApplication(applications, projectVersion) : undefined;
+  const app = await promptForApplication(
+    applications,
+    'Change Version - Select Application',
+    launch?.application ?? matchingApp?.name,
+    matchingApp && { name: matchingApp.name, description: 'matches project version' }
+  );
+  if (!app) {
+    return;
+  }
+
+  if (projectVersion && !(await confirmVersionCompatibility(app, projectFile, projectVersion))) {
+    return;
+  }
+
+  await rememberProjectLaunch(projectFile, { application: app.name, options: launch?.options ?? {} });
+}
+
+/**
+ * Lets the user choose the project used by the 4D commands among all the
+ * projects of the workspace.
+ */
+async function changeSelectedProject(): Promise<void> {
+  const found = await findProjectsByFolder();
+
+  const selected = await promptForProjectSelection(found);
+  if (selected) {
+    await selectProject(selected.folder, selected.project);
+  }
+}
+
+/**
+ * Returns the application and options a project was last opened with.
+ */
+function getProjectLaunch(projectFile: string): Omit<LaunchProfile, 'name'> | undefined {
+  return workspaceState.get<Record<string, Omit<LaunchProfile, 'name'>>>(PROJECT_LAUNCHES_KEY, {})[projectFile];
+}
+
+/**
+ * Prompts the user to select a project from multiple candidates, grouped by
+ * workspace folder when they come from several folders.
+ */
+async function promptForProjectSelection(
+  candidates: FolderProjects[]
+): Promise<{ folder: vscode.WorkspaceFolder; project: FourDProjectFile } | undefined> {
+  type ProjectItem = vscode.QuickPickItem & { folder?: vscode.WorkspaceFolder; project?: FourDProjectFile };
+  const items: ProjectItem[] = [];
+  const grouped = candidates.length > 1;
+
+  for (const { folder, projects } of candidates) {
+    if (grouped) {
+      items.push({ label: folder.name, kind: vscode.QuickPickItemKind.Separator });
+    }
+    const preferred = getPreferredProject({ folder, projects });
+    for (const p of projects) {
+      items.push({
+        label: p.name,
+        description: p === preferred ? `${p.relativePath} (selected)` : p.relativePath,
+        detail: `Parent folder: ${p.parentFolder}`,
+        folder,
+        project: p,
+      });
+    }
+  }
+
+  const selected = await vscode.window.showQuickPick(items, {
+    placeHolder: grouped
+      ? '4D projects found in several workspace folders. Select the project to use:'
+      : 'Multiple 4D projects found. Select the main project:',
+    title: 'Select 4D Project',
+  });
+
+  return selected?.folder && selected.project
+    ? { folder: selected.folder, project: selected.project }
+    : undefined;
+}
+
+/**
+ * Shows a warning that no 4D application is configured, with a shortcut to the settings.
+ */
+async function showNoApplicationsWarning(): Promise<void> {
+  const detect = 'Detect Installed Versions';
+  const openSettings = 'Open Settings';
+  const result = await vscode.window.showWarningMessage(
+    'No 4D applications configured. Detect the installed versions or add applications in settings.',
+    detect,
+    openSettings
+  );
+  if (result === detect) {
+    vscode.commands.executeCommand('4d-helper.detectVersions');
+  } else if (result === openSettings) {
+    vscode.commands.executeCommand('workbench.action.openSettings', '4d-helper.applications');
+  }
+}
+
+/**
+ * Removes an application from the User or Workspace settings, after
+ * confirmation.
+ */
+async function removeConfiguredApplication(
+  app: FourDApplication,
+  source: 'user' | 'workspace'
+): Promise<void> {
+  // Show confirmation dialog
+  const confirmation = await vscode.window.showWarningMessage(
+    `Are you sure you want to remove "${app.name}"?`,
+    { modal: true },
+    'Remove',
+    'Cancel'
+  );
+
+  if (confirmation !== 'Remove') {
+    outputChannel.appendLine('User cancelled removal');
+    return;
+  }
+
+  // Remove from the appropriate config
+  try {
+    const config = vscode.workspace.getConfiguration('4d-helper');
+    const inspected = config.inspect<FourDApplication[]>('applications');
+    const sourceApps = (source === 'user' ? inspected?.globalValue : inspected?.workspaceValue) || [];
+    const filteredApps = sourceApps.filter(
+      entry => !(entry.name === app.name && entry.path === app.path)
+    );
+
+    await config.update(
+      'applications',
+      filteredApps,
+      source === 'user' ? vscode.ConfigurationTarget.Global : vscode.ConfigurationTarget.Workspace
+    );
+    outputChannel.appendLine('Version removed successfully');
+    vscode.window.showInformationMessage(
+      `4D version "${app.name}" removed successfully`
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    outputChannel.appendLine(`Error removing version: ${message}`);
+    vscode.window.showErrorMessage(`Failed to remove version: ${message}`);
+  }
+}
+
+/**
+ * Prompts the user to select one of the configured 4D applications, in the
+ * configured order.
+ *
+ * @param preselectName - Application made the active item
+ * @param match - Application marked as matching, with the text shown next to it
+ */
+async function promptForApplication(
+  applications: FourDApplication[],
+  title: string,
+  preselectName?: string,
+  match?: { name: string; description: string }
+): Promise<FourDApplication | undefined> {
+  const appItems = await Promise.all(applications.map(async (app) => {
+    const item = await describeApplication(app);
+    const description = app.name === match?.name
+      ? [item.description, `$(check) ${match.description}`].filter(Boolean).join(' · ')
+      : item.description;
+    return { ...item, description, app };
+  }));
+
+  return new Promise((resolve) => {
+    const quickPick = vscode.window.createQuickPick<(typeof appItems)[number]>();
+    quickPick.title = title;
+    quickPick.placeholder = 'Select a 4D application';
+    quickPick.items = appItems;
+
+    const preselected = appItems.find((item) => item.app.name === preselectName);
+    if (preselected) {
+      quickPick.activeItems = [preselected];
+    }
+
+    let selected: FourDApplication | undefined;
+    quickPick.onDidAccept(() => {
+      selected = quickPick.activeItems[0]?.app;
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => {
+      quickPick.dispose();
+      resolve(selected);
+    });
+    quickPick.show();
+  });
+}
+
+/**
+ * Returns the application with the same feature level as a project version,
+ * preferring the most recent bug fix.
+ */
+async function findMatchingApplication(
+  applications: FourDApplication[],
+  projectVersion: FourDVersion
+): Promise<FourDApplication | undefined> {
+  let best: { app: FourDApplication; version: FourDVersion } | undefined;
+
+  for (const app of applications) {
+    const version = await getApplicationVersion(app);
+    if (version && compareFeatureLevel(version, projectVersion) === 0) {
+      if (!best || version.patch > best.version.patch) {
+        best = { app, version };
+      }
+    }
+  }
+
+  return best?.app;
+}
+
+/**
+ * Warns before opening a project with an older 4D, which cannot read it, or a
+ * newer one, which converts it. Returns false if the user cancels.
+ */
+async function confirmVersionCompatibility(
+  app: FourDApplication,
+  projectFile: string,
+  projectVersion: FourDVersion
+): Promise<boolean> {
+  const appVersion = await getApplicationVersion(app);
+  if (!appVersion) {
+    outputChannel.appendLine(`Version of ${app.name} unknown, skipping compatibility check`);
+    return true;
+  }
+
+  const comparison = compareFeatureLevel(appVersion, projectVersion);
+  if (comparison === 0) {
+    return true;
+  }
+
+  const projectName = path.basename(projectFile);
+  const saved = `4D ${formatVersion(projectVersion)}`;
+  const selected = `${app.name} (${formatVersion(appVersion)})`;
+
+  const [message, detail] = comparison < 0
+    ? [
+      `${projectName} was saved with ${saved}, which is newer than ${selected}.`,
+      'An older 4D version cannot read a project saved by a newer one: opening may fail or report errors.',
+    ]
+    : [
+      `${projectName} was saved with ${saved}, which is older than ${selected}.`,
+      `Opening it with a newer 4D version upgrades the project. This cannot be undone: it can no longer be opened with ${saved} afterwards.`,
+    ];
+
+  const openAnyway = 'Open Anyway';
+  const choice = await vscode.window.showWarningMessage(message, { modal: true, detail }, openAnyway);
+  return choice === openAnyway;
+}
+
+/**
+ * Builds the QuickPick label, description and detail of an application:
+ * its kind icon and name, kind and version, and path.
+ */
+async function describeApplication(app: FourDApplication): Promise<vscode.QuickPickItem> {
+  const kind = await getApplicationKind(app);
+  const version = formatVersionLabel(await getApplicationMetadata(app.path));
+
+  return {
+    label: `${APPLICATION_KIND_ICONS[kind]} ${app.name}`,
+    description: [APPLICATION_KIND_LABELS[kind], version].filter(Boolean).join(' · '),
+    detail: app.path,
+  };
+}
+
+/**
+ * Prompts for launch options and builds the corresponding LaunchOptions,
+ * asking for the data file, user parameter and startup method if needed.
+ * Returns undefined if cancelled.
+ *
+ * @param projectFile - Project whose methods are offered as startup methods
+ */
+async function promptForLaunchOptions(
+  title: string,
+  projectFile?: string,
+  initial?: LaunchOptions
+): Promise<LaunchOptions | undefined> {
+  const launchOptions = await selectLaunchOptions(title, initial);
+  if (launchOptions === undefined) {
+    return undefined;
+  }
+  outputChannel.appendLine(`Selected options: ${JSON.stringify(launchOptions)}`);
+
+  // Build launch options object
+  const options: LaunchOptions = {};
+
+  if (launchOptions.includes('compiled')) {
+    options.openingMode = 'compiled';
+  } else if (launchOptions.includes('interpreted')) {
+    options.openingMode = 'interpreted';
+  }
+
+  if (launchOptions.includes('skipOnStartup')) {
+    options.skipOnStartup = true;
+  }
+
+  if (launchOptions.includes('headless')) {
+    options.headless = true;
+  }
+
+  if (launchOptions.includes('dataless')) {
+    options.dataless = true;
+  } else if (launchOptions.includes('createData')) {
+    options.createData = true;
+  } else if (launchOptions.includes('customData')) {
+    const dataFile = await promptForDataFile(projectFile, initial?.dataFile);
+    if (dataFile === undefined) {
+      return undefined; // User cancelled
+    }
+    options.dataFile = dataFile;
+  }
+
+  if (launchOptions.includes('snapshotData')) {
+    options.snapshotData = true;
+  }
+
+  if (launchOptions.includes('userParam')) {
+    const userParam = await promptForUserParam(initial?.userParam);
+    if (userParam === undefined) {
+      return undefined; // User cancelled
+    }
+    options.userParam = userParam;
+  }
+
+  if (launchOptions.includes('startupMethod')) {
+    const startupMethod = await promptForStartupMethod(projectFile, initial?.startupMethod);
+    if (startupMethod === undefined) {
+      return undefined; // User cancelled
+    }
+    options.startupMethod = startupMethod;
+  }
+
+  return options;
+}
+
+/**
+ * Prompts for a data file among those found next to the project and in
+ * recently used locations, with a fallback to the file dialog.
+ * Remembers the selection as the last data file of the project.
+ */
+async function promptForDataFile(
+  projectFile?: string,
+  initial?: string
+): Promise<string | undefined> {
+  const history = globalState.get<string[]>(DATA_FILE_HISTORY_KEY, []);
+  const lastByProject = globalState.get<Record<string, string>>(LAST_DATA_FILE_KEY, {});
+  const preferred = initial ?? (projectFile ? lastByProject[projectFile] : undefined);
+
+  const recentFolders = Array.from(new Set(history.map((file) => path.dirname(file))));
+  const dataFiles = await findDataFiles(projectFile, recentFolders);
+
+  // Recently used files may live in folders that are no longer scanned
+  for (const file of history) {
+    if (!dataFiles.some((info) => info.path === file)) {
+      const info = await getDataFileInfo(file);
+      if (info) {
+        dataFiles.push(info);
+      }
+    }
+  }
+
+  type DataFileItem = vscode.QuickPickItem & { dataFile?: string };
+  const toItem = (info: DataFileInfo): DataFileItem => {
+    const companions = [info.hasIndex ? 'index' : '', info.hasJournal ? 'journal' : '']
+      .filter(Boolean)
+      .join(', ');
+    return {
+      label: `$(database) ${info.name}`,
+      description: [
+        formatFileSize(info.size),
+        info.modified.toLocaleString(),
+        companions ? `with ${companions}` : '',
+        info.path === preferred ? '(last used)' : '',
+      ].filter(Boolean).join(' • '),
+      detail: info.path,
+      dataFile: info.path,
+    };
+  };
+
+  const sorted = sortDataFiles(dataFiles, preferred);
+
+  const items: DataFileItem[] = [];
+  const groups: [DataFileInfo['location'], string][] = [
+    ['data', 'Project Data'],
+    ['sibling', 'Project Folders'],
+    ['recent', 'Recent'],
+  ];
+  for (const [location, label] of groups) {
+    const group = sorted.filter((info) => info.location === location);
+    if (group.length > 0) {
+      items.push({ label, kind: vscode.QuickPickItemKind.Separator });
+      items.push(...group.map(toItem));
+    }
+  }
+
+  let dataFile: string | undefined;
+
+  if (items.length > 0) {
+    const browse: DataFileItem = { label: '$(folder-opened) Browse...' };
+    const selected = await vscode.window.showQuickPick([browse, ...items], {
+      placeHolder: 'Select a data file',
+      title: 'Select Data File',
+      matchOnDetail: true,
+    });
+    if (!selected) {
+      return undefined;
+    }
+    dataFile = selected.dataFile;
+  }
+
+  if (dataFile === undefined) {
+    const selectedFiles = await vscode.window.showOpenDialog({
+      canSelectFiles: true,
+      canSelectFolders: false,
+      canSelectMany: false,
+      defaultUri: preferred ? vscode.Uri.file(preferred) : undefined,
+      filters: { '4D Data Files': ['4DD'] },
+      title: 'Select Data File',
+    });
+    if (!selectedFiles || selectedFiles.length === 0) {
+      return undefined;
+    }
+    dataFile = selectedFiles[0].fsPath;
+  }
+
+  await rememberDataFile(dataFile, projectFile);
+  return dataFile;
+}
+
+/**
+ * Adds a data file to the recent data files and, when given, remembers it as
+ * the last data file of the project.
+ */
+async function rememberDataFile(dataFile: string, projectFile?: string): Promise<void> {
+  const history = globalState.get<string[]>(DATA_FILE_HISTORY_KEY, []);
+  const updatedHistory = [dataFile, ...history.filter((entry) => entry !== dataFile)]
+    .slice(0, DATA_FILE_HISTORY_SIZE);
+  await globalState.update(DATA_FILE_HISTORY_KEY, updatedHistory);
+
+  if (projectFile) {
+    const lastByProject = globalState.get<Record<string, string>>(LAST_DATA_FILE_KEY, {});
+    await globalState.update(LAST_DATA_FILE_KEY, { ...lastByProject, [projectFile]: dataFile });
+  }
+}
+
+/**
+ * Prompts for a user parameter, offering previously used values.
+ */
+async function promptForUserParam(initial?: string): Promise<string | undefined> {
+  const history = globalState.get<string[]>(USER_PARAM_HISTORY_KEY, []);
+  let value: string | undefined;
+
+  if (history.length > 0) {
+    const newValue = { label: '$(edit) Enter New Value...', value: undefined };
+    const items = [
+      newValue,
+      { label: 'Recent', kind: vscode.QuickPickItemKind.Separator, value: undefined },
+      ...history.map((entry) => ({ label: entry, value: entry as string | undefined })),
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Select a previous user parameter or enter a new one',
+      title: 'User Parameter',
+    });
+    if (!selected) {
+      return undefined;
+    }
+    value = selected.value;
+  }
+
+  if (value === undefined) {
+    value = await vscode.window.showInputBox({
+      prompt: 'Enter the user parameter passed to 4D (--user-param)',
+      value: initial,
+      placeHolder: 'e.g., {"env":"test"}',
+      validateInput: (input) => {
+        if (!input) {
+          return 'User parameter cannot be empty';
+        }
+        return null;
+      }
+    });
+    if (value === undefined) {
+      return undefined;
+    }
+  }
+
+  // Most recent first, without duplicates
+  const updatedHistory = [value, ...history.filter((entry) => entry !== value)]
+    .slice(0, USER_PARAM_HISTORY_SIZE);
+  await globalState.update(USER_PARAM_HISTORY_KEY, updatedHistory);
+
+  return value;
+}
+
+/**
+ * Prompts for a startup method among the project methods of the project.
+ * Falls back to free input when the methods cannot be listed.
+ */
+async function promptForStartupMethod(
+  projectFile?: string,
+  initial?: string
+): Promise<string | undefined> {
+  const methods = projectFile ? await listProjectMethods(projectFile) : [];
+
+  if (methods.length === 0) {
+    const name = await vscode.window.showInputBox({
+      prompt: 'Enter the name of the project method to run at startup (--startup-method)',
+      value: initial,
+      validateInput: (input) => {
+        if (!input || input.trim().length === 0) {
+          return 'Method name cannot be empty';
+        }
+        return null;
+      }
+    });
+    return name?.trim();
+  }
+
+  // Put the initial method first so it is the active item
+  const sorted = initial && methods.includes(initial)
+    ? [initial, ...methods.filter((m) => m !== initial)]
+    : methods;
+
+  const selected = await vscode.window.showQuickPick(
+    sorted.map((method) => ({ label: `$(symbol-method) ${method}`, method })),
+    {
+      placeHolder: 'Select the project method to run at startup',
+      title: 'Startup Method',
+    }
+  );
+
+  return selected?.method;
+}
+
+/**
+ * Returns the IDs of the launch option items matching existing options.
+ */
+function getLaunchOptionIds(options: LaunchOptions): LaunchOptionId[] {
+  const ids: LaunchOptionId[] = [];
+
+  if (options.openingMode) {
+    ids.push(options.openingMode);
+  }
+  if (options.skipOnStartup) {
+    ids.push('skipOnStartup');
+  }
+  if (options.headless) {
+    ids.push('headless');
+  }
+  if (options.dataless) {
+    ids.push('dataless');
+  } else if (options.createData) {
+    ids.push('createData');
+  } else if (options.dataFile) {
+    ids.push('customData');
+  }
+  if (options.userParam) {
+    ids.push('userParam');
+  }
+  if (options.startupMethod) {
+    ids.push('startupMethod');
+  }
+  if (options.snapshotData) {
+    ids.push('snapshotData');
+  }
+
+  return ids;
+}
+
+/**
+ * Shows a multi-select QuickPick for launch options with mutual exclusion handling.
+ */
+async function selectLaunchOptions(
+  title: string,
+  initial?: LaunchOptions
+): Promise<LaunchOptionId[] | undefined> {
+  return new Promise((resolve) => {
+    const quickPick = vscode.window.createQuickPick<LaunchOptionItem>();
+    quickPick.title = title;
+    quickPick.placeholder = 'Select launch options (optional), then press Enter';
+    quickPick.canSelectMany = true;
+    quickPick.items = LAUNCH_OPTIONS;
+
+    // Set default selection (interpreted mode, or the initial options)
+    const initialIds = initial ? getLaunchOptionIds(initial) : undefined;
+    const defaultSelected = LAUNCH_OPTIONS.filter((item) =>
+      initialIds ? initialIds.includes(item.id) : item.picked
+    );
+    quickPick.selectedItems = defaultSelected;
+
+    // Track selected items to handle mutual exclusion
+    let previousSelection: readonly LaunchOptionItem[] = defaultSelected;
+    let resolved = false;
+
+    quickPick.onDidChangeSelection((selectedItems) => {
+      const newlySelected = selectedItems.filter(
+        (item) => !previousSelection.includes(item)
+      );
+
+      if (newlySelected.length > 0) {
+        const newItem = newlySelected[0];
+
+        // Handle mutual exclusion for groups
+        if (newItem.group) {
+          const filtered = selectedItems.filter(
+            (item) => item.group !== newItem.group || item.id === newItem.id
+          );
+
+          if (filtered.length !== selectedItems.length) {
+            quickPick.selectedItems = filtered;
+            previousSelection = filtered;
+            return;
+          }
+        }
+      }
+
+      previousSelection = selectedItems;
+    });
+
+    quickPick.onDidAccept(() => {
+      if (!resolved) {
+        resolved = true;
+        const selected = quickPick.selectedItems.map((item) => item.id);
+        quickPick.hide();
+        quickPick.dispose();
+        resolve(selected);
+      }
+    });
+
+    quickPick.onDidHide(() => {
+      if (!resolved) {
+        resolved = true;
+        quickPick.dispose();
+        resolve(undefined);
+      }
+    });
+
+    quickPick.show();
+  });
+}
+
+/**
+ * Waits until a launched instance is ready and tells the user how the launch
+ * went: the started message, or an error or warning offering the instance
+ * output. Server launches wait for the server to answer on its port; headless
+ * launches wait for the configured ready marker.
+ *
+ * @returns The readiness result, or undefined if the process could not be
+ *          watched (the started message is then shown right away)
+ */
+async function watchLaunch(
+  instance: Running4DInstance | null,
+  appName: string,
+  options: LaunchOptions,
+  expected: { startedMessage?: string; server?: LocalServerOptions }
+): Promise<ReadinessResult | undefined> {
+  if (!instance) {
+    if (expected.startedMessage) {
+      vscode.window.showInformationMessage(expected.startedMessage);
+    }
+    return undefined;
+  }
+
+  const config = vscode.workspace.getConfiguration('4d-helper');
+  const gracePeriod = config.get<number>('launch.gracePeriod', 3);
+  const timeout = expected.server
+    ? config.get<number>('server.startupTimeout', 120)
+    : config.get<number>('launch.readyTimeout', 60);
+
+  let outputMarker: RegExp | undefined;
+  const marker = config.get<string>('launch.headlessReadyMarker', '');
+  if (options.headless && marker) {
+    try {
+      outputMarker = new RegExp(marker);
+    } catch {
+      outputChannel.appendLine(`Ignoring invalid ready marker: ${marker}`);
+    }
+  }
+
+  const waitingFor = expected.server
+    ? `waiting for the server on port ${expected.server.port}`
+    : outputMarker
+      ? 'waiting for the ready marker'
+      : 'checking that it keeps running';
+
+  const result = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Starting ${appName}: ${waitingFor}...`,
+      cancellable: true
+    },
+    (_progress, token) =>
+      waitForReadiness(instance, {
+        gracePeriodMs: gracePeriod * 1000,
+        timeoutMs: timeout * 1000,
+        outputMarker,
+        server: expected.server,
+        isCancelled: () => token.isCancellationRequested
+      })
+  );
+  outputChannel.appendLine(`Instance #${instance.id} readiness: ${result.status} (${result.message})`);
+
+  const openLogs = 'Open Logs';
+  let choice: string | undefined;
+  switch (result.status) {
+    case 'started':
+      if (expected.startedMessage) {
+        vscode.window.showInformationMessage(expected.startedMessage);
+      }
+      break;
+    case 'failed':
+      choice = await vscode.window.showErrorMessage(
+        `${appName} failed to start: ${result.message}`,
+        openLogs
+      );
+      break;
+    case 'timedOut':
+      choice = await vscode.window.showWarningMessage(
+        `${appName} timed out while starting: ${result.message}`,
+        openLogs
+      );
+      break;
+  }
+
+  if (choice === openLogs) {
+    showInstanceOutput(instance);
+  }
+  return result;
+}
+
+/**
+ * Creates a summary string of the selected launch options.
+ */
+function summarizeLaunchOptions(options: LaunchOptions): string {
+  const parts: string[] = [];
+
+  if (options.openingMode) {
+    parts.push(options.openingMode);
+  }
+
+  if (options.skipOnStartup) {
+    parts.push('skip startup');
+  }
+
+  if (options.headless) {
+    parts.push('headless');
+  }
 
   if (options.dataless) {
     parts.push('dataless');
@@ -1368,6 +3643,18 @@ function summarizeLaunchOptions(options: LaunchOptions): string {
     parts.push('custom data');
   }
 
+  if (options.userParam) {
+    parts.push('user param');
+  }
+
+  if (options.startupMethod) {
+    parts.push(`startup: ${options.startupMethod}`);
+  }
+
+  if (options.snapshotData) {
+    parts.push('snapshot');
+  }
+
   if (parts.length === 0) {
     return '';
   }
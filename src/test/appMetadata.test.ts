@@ -0,0 +1,50 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getApplicationMetadata, formatVersionLabel } from '../utils/appMetadata';
+
+const INFO_PLIST = `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+	<key>CFBundleIdentifier</key>
+	<string>com.4D.4D</string>
+	<key>CFBundleName</key>
+	<string>4D</string>
+	<key>CFBundleShortVersionString</key>
+	<string>20.4.0</string>
+	<key>CFBundleVersion</key>
+	<string>294436</string>
+</dict>
+</plist>
+`;
+
+describe('getApplicationMetadata', () => {
+  let root: string;
+
+  before(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), '4d-helper-metadata-'));
+  });
+
+  after(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  it('reads the version of an application bundle', async () => {
+    // The name says nothing about the version: it comes from the Info.plist
+    const app = path.join(root, '4D.app');
+    await fs.promises.mkdir(path.join(app, 'Contents'), { recursive: true });
+    await fs.promises.writeFile(path.join(app, 'Contents', 'Info.plist'), INFO_PLIST);
+
+    const metadata = await getApplicationMetadata(app);
+
+    assert.equal(metadata.product, '4D');
+    assert.deepEqual(metadata.version, { major: 20, release: 4, patch: 0 });
+    assert.equal(formatVersionLabel(metadata), 'v20 R4 (build 294436)');
+  });
+
+  it('returns no metadata for applications without any', async () => {
+    assert.deepEqual(await getApplicationMetadata(path.join(root, 'tool4d')), {});
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { compileProject, parseCompileResult, COMPILE_METHOD_NAME } from '../utils/compiler';
+
+/**
+ * Stands in for tool4d: writes a known result to the file passed as user
+ * parameter, the way the compile method does.
+ */
+const STUB_APPLICATION = `#!/bin/sh
+while [ $# -gt 0 ]; do
+  if [ "$1" = "--user-param" ]; then
+    result="$2"
+  fi
+  shift
+done
+cat > "$result" <<'JSON'
+{
+  "success": false,
+  "errors": [
+    { "isError": true, "message": "Syntax error", "line": 12, "type": "projectMethod", "methodName": "doThing" },
+    { "isError": false, "message": "Unused variable", "line": 3, "type": "classFunction", "methodName": "Invoice.total" }
+  ]
+}
+JSON
+`;
+
+describe('compileProject', { skip: process.platform === 'win32' }, () => {
+  let root: string;
+  let app: string;
+  let projectFile: string;
+  let methodFile: string;
+
+  before(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), '4d-helper-compiler-'));
+    app = path.join(root, 'tool4d');
+    await fs.promises.writeFile(app, STUB_APPLICATION, { mode: 0o755 });
+
+    projectFile = path.join(root, 'MyApp', 'Project', 'MyApp.4DProject');
+    await fs.promises.mkdir(path.dirname(projectFile), { recursive: true });
+    await fs.promises.writeFile(projectFile, '{}');
+
+    methodFile = path.join(path.dirname(projectFile), 'Sources', 'Methods', `${COMPILE_METHOD_NAME}.4dm`);
+  });
+
+  after(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  it('maps the compiler messages to source files', async () => {
+    const sources = path.join(path.dirname(projectFile), 'Sources');
+    const result = await compileProject(app, projectFile, { timeout: 10 });
+
+    assert.equal(result.success, false);
+    assert.deepEqual(
+      result.errors.map((error) => ({ isError: error.isError, file: error.file, line: error.line })),
+      [
+        { isError: true, file: path.join(sources, 'Methods', 'doThing.4dm'), line: 12 },
+        { isError: false, file: path.join(sources, 'Classes', 'Invoice.4dm'), line: 3 },
+      ]
+    );
+  });
+
+  it('deletes the generated compile method after the run', async () => {
+    await compileProject(app, projectFile, { timeout: 10 });
+    assert.equal(fs.existsSync(methodFile), false);
+  });
+
+  it('refuses to overwrite a user method with the same name', async () => {
+    await fs.promises.mkdir(path.dirname(methodFile), { recursive: true });
+    await fs.promises.writeFile(methodFile, '// My own method');
+
+    try {
+      await assert.rejects(compileProject(app, projectFile, { timeout: 10 }), /already has a __4DHelper_Compile method/);
+      assert.equal(await fs.promises.readFile(methodFile, 'utf8'), '// My own method');
+    } finally {
+      await fs.promises.rm(methodFile, { force: true });
+    }
+  });
+});
+
+describe('parseCompileResult', () => {
+  const projectFile = path.join('/work', 'MyApp', 'Project', 'MyApp.4DProject');
+
+  it('reads the location nested in the raw Compile project result', () => {
+    const result = parseCompileResult(
+      JSON.stringify({
+        success: false,
+        errors: [
+          { isError: true, message: 'Type mismatch', lineInFile: 7, code: { type: 'databaseMethod', methodName: 'onStartup' } },
+        ],
+      }),
+      projectFile
+    );
+
+    assert.deepEqual(result.errors, [
+      {
+        isError: true,
+        message: 'Type mismatch',
+        line: 7,
+        type: 'databaseMethod',
+        methodName: 'onStartup',
+        file: path.join('/work', 'MyApp', 'Project', 'Sources', 'DatabaseMethods', 'onStartup.4dm'),
+      },
+    ]);
+  });
+
+  it('ignores malformed entries and values', () => {
+    const result = parseCompileResult(
+      JSON.stringify({ errors: [null, { isError: false, message: 42, line: 0, file: '' }] }),
+      projectFile
+    );
+
+    // Entries that are not known to be warnings count as errors
+    assert.equal(result.success, false);
+    assert.deepEqual(
+      result.errors.map((error) => [error.isError, error.message, error.line, error.file]),
+      [
+        [true, 'Unknown compiler error', undefined, undefined],
+        [false, 'Unknown compiler error', undefined, undefined],
+      ]
+    );
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findProjectComponents } from '../utils/components';
+
+async function writeFile(file: string, content: string): Promise<void> {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, content);
+}
+
+describe('findProjectComponents', () => {
+  let root: string;
+  let projectFile: string;
+
+  before(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), '4d-helper-components-'));
+    const app = path.join(root, 'App');
+    projectFile = path.join(app, 'Project', 'App.4DProject');
+
+    await writeFile(projectFile, '{}');
+    await writeFile(
+      path.join(app, 'Project', 'Sources', 'dependencies.json'),
+      JSON.stringify({
+        dependencies: {
+          Shared: {},
+          Broken: {},
+          Remote: { github: 'owner/remote', version: '^1.0.0' },
+        },
+      })
+    );
+    await writeFile(
+      path.join(root, 'environment4d.json'),
+      JSON.stringify({ dependencies: { Shared: './Shared', Broken: 'file://remote-host/Broken' } })
+    );
+    await writeFile(path.join(root, 'Shared', 'Project', 'Shared.4DProject'), '{}');
+    await writeFile(path.join(app, 'Components', 'Built.4dbase', 'Built.4DZ'), '');
+  });
+
+  after(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  it('lists source, built and missing components', async () => {
+    const components = await findProjectComponents(projectFile);
+
+    assert.deepEqual(
+      components.map((component) => [component.name, component.kind, component.declaredIn]),
+      [
+        ['Broken', 'notFound', 'dependencies'],
+        ['Built', 'built', 'componentsFolder'],
+        ['Remote', 'notFound', 'dependencies'],
+        ['Shared', 'source', 'dependencies'],
+      ]
+    );
+    assert.equal(
+      components.find((component) => component.name === 'Shared')?.projectFile,
+      path.join(root, 'Shared', 'Project', 'Shared.4DProject')
+    );
+    assert.equal(components.find((component) => component.name === 'Remote')?.github, 'owner/remote');
+  });
+});
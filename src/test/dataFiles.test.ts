@@ -0,0 +1,121 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DataFileInfo, findDataFiles, getDataFileInfo, sortDataFiles } from '../utils/dataFiles';
+
+describe('findDataFiles', () => {
+  let root: string;
+  let projectFile: string;
+  let recent: string;
+
+  before(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), '4d-helper-datafiles-'));
+    projectFile = path.join(root, 'MyApp', 'Project', 'MyApp.4DProject');
+    recent = path.join(root, 'Elsewhere');
+
+    const files = [
+      'MyApp/Project/MyApp.4DProject',
+      'MyApp/Data/data.4DD',
+      'MyApp/Data/data.4DIndx',
+      'MyApp/Data/data.journal',
+      'MyApp/Data/Archive.4DD',
+      'MyApp/Data/other.journal',
+      'MyApp/TestData/test.4dd',
+      'MyApp/Backup copy/old.4DD',
+      'MyApp/Backup copy/old.4DIndx',
+      'MyApp/Resources/sample.4DD',
+      'MyApp/Logs/crash.4DD',
+      'MyApp/.hidden/secret.4DD',
+      'MyApp/Project/inside.4DD',
+      'Elsewhere/shared.4DD',
+      'Elsewhere/notes.txt',
+    ];
+    for (const file of files) {
+      await fs.promises.mkdir(path.join(root, path.dirname(file)), { recursive: true });
+      await fs.promises.writeFile(path.join(root, file), 'data');
+    }
+  });
+
+  after(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  it('lists the Data folder, then sibling folders, then recent folders, by name', async () => {
+    const found = await findDataFiles(projectFile, [recent]);
+
+    assert.deepEqual(
+      found.map((info) => [path.relative(root, info.path), info.location]),
+      [
+        [path.join('MyApp', 'Data', 'Archive.4DD'), 'data'],
+        [path.join('MyApp', 'Data', 'data.4DD'), 'data'],
+        [path.join('MyApp', 'Backup copy', 'old.4DD'), 'sibling'],
+        [path.join('MyApp', 'TestData', 'test.4dd'), 'sibling'],
+        [path.join('Elsewhere', 'shared.4DD'), 'recent'],
+      ]
+    );
+  });
+
+  it('keeps the first location of a file found twice', async () => {
+    const found = await findDataFiles(projectFile, [path.join(root, 'MyApp', 'Data'), recent]);
+
+    assert.deepEqual(
+      found.filter((info) => info.location === 'recent').map((info) => info.name),
+      ['shared']
+    );
+  });
+
+  it('only searches the given folders without a project', async () => {
+    const found = await findDataFiles(undefined, [recent, path.join(root, 'Missing')]);
+    assert.deepEqual(found.map((info) => info.name), ['shared']);
+  });
+
+  it('reports the index and journal with the same name', async () => {
+    const found = await findDataFiles(projectFile);
+    const companions = Object.fromEntries(found.map((info) => [info.name, [info.hasIndex, info.hasJournal]]));
+
+    assert.deepEqual(companions, {
+      Archive: [false, false],
+      data: [true, true],
+      old: [true, false],
+      test: [false, false],
+    });
+  });
+
+  it('returns no metadata for a missing file', async () => {
+    assert.equal(await getDataFileInfo(path.join(root, 'MyApp', 'Data', 'missing.4DD')), null);
+  });
+});
+
+describe('sortDataFiles', () => {
+  const info = (name: string, location: DataFileInfo['location'], modified: number): DataFileInfo => ({
+    path: path.join('/data', `${name}.4DD`),
+    name,
+    size: 0,
+    modified: new Date(modified),
+    hasIndex: false,
+    hasJournal: false,
+    location,
+  });
+
+  const files = [
+    info('recent', 'recent', 500),
+    info('sibling', 'sibling', 100),
+    info('older', 'data', 200),
+    info('newer', 'data', 300),
+  ];
+
+  it('orders by location, then most recently modified', () => {
+    assert.deepEqual(sortDataFiles(files).map((file) => file.name), ['newer', 'older', 'sibling', 'recent']);
+  });
+
+  it('puts the preferred file first without changing the input', () => {
+    assert.deepEqual(
+      sortDataFiles(files, path.join('/data', 'recent.4DD')).map((file) => file.name),
+      ['recent', 'newer', 'older', 'sibling']
+    );
+    assert.equal(files[0].name, 'recent');
+    assert.equal(files[3].name, 'newer');
+  });
+});
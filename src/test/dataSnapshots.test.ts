@@ -0,0 +1,109 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createSnapshot,
+  deleteSnapshot,
+  listSnapshots,
+  restoreSnapshot,
+  setSnapshotsDirectory,
+} from '../utils/dataSnapshots';
+
+describe('data snapshots', () => {
+  let root: string;
+  let dataFolder: string;
+  let dataFile: string;
+  let otherFile: string;
+
+  const write = (name: string, content: string) =>
+    fs.promises.writeFile(path.join(dataFolder, name), content);
+  const read = (name: string) => fs.promises.readFile(path.join(dataFolder, name), 'utf8');
+
+  before(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), '4d-helper-snapshots-'));
+    dataFolder = path.join(root, 'MyApp', 'Data');
+    dataFile = path.join(dataFolder, 'data.4DD');
+    otherFile = path.join(dataFolder, 'other.4DD');
+    setSnapshotsDirectory(path.join(root, 'snapshots'));
+
+    await fs.promises.mkdir(dataFolder, { recursive: true });
+    await write('data.4DD', 'records');
+    await write('data.4DIndx', 'index');
+    await write('data.journal', 'journal');
+    await write('database.4DD', 'another data file');
+    await write('other.4DD', 'other records');
+    await write('other.journal', 'other journal');
+    await write('data.4DD.bak', 'backup');
+  });
+
+  after(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  it('copies the data file with the index and journal of the same name', async () => {
+    const snapshot = await createSnapshot(dataFile, 'Before tests');
+
+    assert.deepEqual([...snapshot.files].sort(), ['data.4DD', 'data.4DIndx', 'data.journal']);
+    assert.equal(snapshot.size, 'records'.length + 'index'.length + 'journal'.length);
+    assert.deepEqual(
+      (await fs.promises.readdir(snapshot.directory)).sort(),
+      ['data.4DD', 'data.4DIndx', 'data.journal', 'snapshot.json']
+    );
+
+    const metadata = JSON.parse(
+      await fs.promises.readFile(path.join(snapshot.directory, 'snapshot.json'), 'utf8')
+    );
+    assert.equal(metadata.directory, undefined);
+    assert.equal(metadata.label, 'Before tests');
+    assert.equal(metadata.dataFile, dataFile);
+  });
+
+  it('refuses to snapshot a missing data file', async () => {
+    await assert.rejects(createSnapshot(path.join(dataFolder, 'missing.4DD')), /Data file not found/);
+  });
+
+  it('lists the snapshots of a data file or of all data files, most recent first', async () => {
+    const first = await createSnapshot(otherFile, 'First');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await createSnapshot(otherFile);
+
+    assert.deepEqual(
+      (await listSnapshots(otherFile)).map((snapshot) => snapshot.directory),
+      [second.directory, first.directory]
+    );
+    assert.deepEqual(
+      (await listSnapshots()).map((snapshot) => [path.basename(snapshot.dataFile), snapshot.label]),
+      [['other.4DD', undefined], ['other.4DD', 'First'], ['data.4DD', 'Before tests']]
+    );
+  });
+
+  it('restores the snapshot files and removes the ones created since', async () => {
+    const [snapshot] = await listSnapshots(otherFile);
+    await write('other.4DD', 'changed records');
+    await write('other.4DIndx', 'new index');
+
+    await restoreSnapshot(snapshot);
+
+    assert.equal(await read('other.4DD'), 'other records');
+    assert.equal(await read('other.journal'), 'other journal');
+    assert.equal(fs.existsSync(path.join(dataFolder, 'other.4DIndx')), false);
+    // Files of other data files are left alone
+    assert.equal(await read('data.4DIndx'), 'index');
+    assert.equal(await read('database.4DD'), 'another data file');
+    assert.equal(await read('data.4DD.bak'), 'backup');
+  });
+
+  it('removes the data file folder with its last snapshot', async () => {
+    const snapshots = await listSnapshots(otherFile);
+    const parent = path.dirname(snapshots[0].directory);
+
+    await deleteSnapshot(snapshots[0]);
+    assert.equal(fs.existsSync(parent), true);
+
+    await deleteSnapshot(snapshots[1]);
+    assert.equal(fs.existsSync(parent), false);
+    assert.equal((await listSnapshots(otherFile)).length, 0);
+  });
+});
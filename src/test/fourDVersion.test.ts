@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  parseBundleVersion,
+  parseVersionCode,
+  parseVersionString,
+  formatVersion,
+  compareFeatureLevel
+} from '../utils/fourDVersion';
+
+describe('parseBundleVersion', () => {
+  it('reads dotted versions as major.release.patch', () => {
+    assert.deepEqual(parseBundleVersion('20.4.0'), { major: 20, release: 4, patch: 0 });
+    assert.deepEqual(parseBundleVersion('20.0.2'), { major: 20, release: 0, patch: 2 });
+    assert.deepEqual(parseBundleVersion('19.7'), { major: 19, release: 7, patch: 0 });
+  });
+
+  it('ignores the build number of executable versions', () => {
+    assert.deepEqual(parseBundleVersion('20.4.1.294436'), { major: 20, release: 4, patch: 1 });
+  });
+
+  it('falls back to display strings', () => {
+    assert.deepEqual(parseBundleVersion('4D v20 R4'), { major: 20, release: 4, patch: 0 });
+    assert.equal(parseBundleVersion('unknown'), undefined);
+  });
+});
+
+describe('parseVersionString', () => {
+  it('finds versions in application names', () => {
+    assert.deepEqual(parseVersionString('4D v20 R4'), { major: 20, release: 4, patch: 0 });
+    assert.deepEqual(parseVersionString('/Applications/4D v21R2.1/4D.app'), { major: 21, release: 2, patch: 1 });
+    assert.deepEqual(parseVersionString('4D 20.2'), { major: 20, release: 0, patch: 2 });
+    assert.deepEqual(parseVersionString('4D v19'), { major: 19, release: 0, patch: 0 });
+    assert.deepEqual(parseVersionString('2040'), { major: 20, release: 4, patch: 0 });
+    assert.equal(parseVersionString('4D'), undefined);
+  });
+});
+
+describe('parseVersionCode', () => {
+  it('reads compatibility version codes', () => {
+    assert.deepEqual(parseVersionCode(2040), { major: 20, release: 4, patch: 0 });
+    assert.deepEqual(parseVersionCode('2002'), { major: 20, release: 0, patch: 2 });
+    assert.equal(parseVersionCode('20R4'), undefined);
+  });
+});
+
+describe('formatVersion', () => {
+  it('formats feature releases and LTS versions', () => {
+    assert.equal(formatVersion({ major: 20, release: 4, patch: 0 }), '20 R4');
+    assert.equal(formatVersion({ major: 20, release: 4, patch: 1 }), '20 R4.1');
+    assert.equal(formatVersion({ major: 20, release: 0, patch: 2 }), '20.2');
+    assert.equal(formatVersion({ major: 20, release: 0, patch: 0 }), '20');
+  });
+
+  it('compares feature levels without bug fix numbers', () => {
+    assert.equal(compareFeatureLevel({ major: 20, release: 0, patch: 2 }, { major: 20, release: 0, patch: 0 }), 0);
+    assert.ok(compareFeatureLevel({ major: 20, release: 2, patch: 0 }, { major: 20, release: 4, patch: 0 }) < 0);
+    assert.ok(compareFeatureLevel({ major: 21, release: 0, patch: 0 }, { major: 20, release: 8, patch: 0 }) > 0);
+  });
+});
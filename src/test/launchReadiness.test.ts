@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { waitForReadiness } from '../utils/launchReadiness';
+import { registerInstance, reportInstanceExit, reportInstanceOutput } from '../utils/processManager';
+
+describe('waitForReadiness', () => {
+  // The test process stands in for 4D, so the instance stays alive
+  const launch = () => registerInstance(process.pid, '/apps/tool4d', '/work/MyApp.4DProject', { headless: true });
+
+  it('finds the ready marker in a line split across output chunks', async () => {
+    const instance = launch();
+    try {
+      const readiness = waitForReadiness(instance, { gracePeriodMs: 0, timeoutMs: 5000, outputMarker: /^Server ready$/ });
+      reportInstanceOutput(instance, 'stdout', 'Starting\nServer re');
+      reportInstanceOutput(instance, 'stderr', 'warning\n');
+      reportInstanceOutput(instance, 'stdout', 'ady\r\n');
+
+      assert.equal((await readiness).status, 'started');
+    } finally {
+      reportInstanceExit(instance, 0, null);
+    }
+  });
+
+  it('only tests complete lines', async () => {
+    const instance = launch();
+    try {
+      const readiness = waitForReadiness(instance, { gracePeriodMs: 0, timeoutMs: 600, outputMarker: /^Server ready$/ });
+      reportInstanceOutput(instance, 'stdout', 'Server ready');
+
+      assert.equal((await readiness).status, 'timedOut');
+    } finally {
+      reportInstanceExit(instance, 0, null);
+    }
+  });
+});
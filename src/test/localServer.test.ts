@@ -0,0 +1,66 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { readLocalServerOptions, DEFAULT_SERVER_PORT } from '../utils/localServer';
+
+function settings(network: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<preferences stamp="1">
+	<com.4d>
+		<server>
+			${network}
+		</server>
+	</com.4d>
+</preferences>
+`;
+}
+
+describe('readLocalServerOptions', () => {
+  let root: string;
+  let projectFile: string;
+  let structureSettings: string;
+  let userSettings: string;
+
+  before(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), '4d-helper-server-'));
+    projectFile = path.join(root, 'Project', 'Invoices.4DProject');
+    structureSettings = path.join(root, 'Project', 'Sources', 'settings.4DSettings');
+    userSettings = path.join(root, 'Settings', 'settings.4DSettings');
+    await fs.promises.mkdir(path.dirname(structureSettings), { recursive: true });
+    await fs.promises.mkdir(path.dirname(userSettings), { recursive: true });
+  });
+
+  after(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  it('defaults to the project name and the 4D port', async () => {
+    assert.deepEqual(await readLocalServerOptions(projectFile), {
+      publicationName: 'Invoices',
+      port: DEFAULT_SERVER_PORT,
+    });
+  });
+
+  it('reads the structure settings', async () => {
+    await fs.promises.writeFile(
+      structureSettings,
+      settings('<network publication_name="Invoices &amp; Co" port_number="19900"/>')
+    );
+
+    assert.deepEqual(await readLocalServerOptions(projectFile), {
+      publicationName: 'Invoices & Co',
+      port: 19900,
+    });
+  });
+
+  it('prefers the user settings', async () => {
+    await fs.promises.writeFile(userSettings, settings('<network port_number="20100"/>'));
+
+    assert.deepEqual(await readLocalServerOptions(projectFile), {
+      publicationName: 'Invoices & Co',
+      port: 20100,
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parsePeVersionInfo, readPeVersionInfo } from '../utils/peVersion';
+import { getApplicationMetadata } from '../utils/appMetadata';
+
+// ============================================
+// Fixture builders
+// ============================================
+
+/** Virtual address and file offset of the resource section */
+const RESOURCE_RVA = 0x1000;
+const RESOURCE_OFFSET = 0x200;
+
+function align4(buffer: Buffer): Buffer {
+  return Buffer.concat([buffer, Buffer.alloc((4 - (buffer.length % 4)) % 4)]);
+}
+
+/**
+ * Builds a VS_VERSIONINFO block: header, key, value and child blocks, each
+ * aligned on 32 bits. Text values are stored as UTF-16 with their length in characters.
+ */
+function versionBlock(key: string, value: Buffer | string | null, children: Buffer[] = []): Buffer {
+  const isText = typeof value === 'string';
+  const valueBytes = isText ? Buffer.from(`${value}\0`, 'utf16le') : value ?? Buffer.alloc(0);
+
+  const header = Buffer.alloc(6);
+  let block = Buffer.concat([align4(Buffer.concat([header, Buffer.from(`${key}\0`, 'utf16le')])), valueBytes]);
+  for (const child of children) {
+    block = Buffer.concat([align4(block), child]);
+  }
+
+  block.writeUInt16LE(block.length, 0);
+  block.writeUInt16LE(isText ? valueBytes.length / 2 : valueBytes.length, 2);
+  block.writeUInt16LE(isText ? 1 : 0, 4);
+  return block;
+}
+
+function fixedFileInfo(version: [number, number, number, number]): Buffer {
+  const info = Buffer.alloc(52);
+  info.writeUInt32LE(0xfeef04bd, 0);
+  info.writeUInt32LE(0x00010000, 4);
+  info.writeUInt32LE(((version[0] << 16) | version[1]) >>> 0, 8);
+  info.writeUInt32LE(((version[2] << 16) | version[3]) >>> 0, 12);
+  return info;
+}
+
+function versionResource(strings: { [key: string]: string }, version: [number, number, number, number]): Buffer {
+  const entries = Object.entries(strings).map(([key, value]) => versionBlock(key, value));
+  return versionBlock('VS_VERSION_INFO', fixedFileInfo(version), [
+    versionBlock('StringFileInfo', null, [versionBlock('040904b0', null, entries)]),
+    versionBlock('VarFileInfo', null, [versionBlock('Translation', Buffer.from([0x09, 0x04, 0xb0, 0x04]))]),
+  ]);
+}
+
+/** Resource directory with a single entry pointing to `target` */
+function resourceDirectory(id: number, target: number): Buffer {
+  const directory = Buffer.alloc(24);
+  directory.writeUInt16LE(1, 14);
+  directory.writeUInt32LE(id, 16);
+  directory.writeUInt32LE(target >>> 0, 20);
+  return directory;
+}
+
+/**
+ * Builds a minimal PE32 file whose only section holds the resource tree
+ * RT_VERSION / 1 / 0x409 pointing to the given version resource.
+ */
+function peFile(resource: Buffer): Buffer {
+  const SUBDIRECTORY = 0x80000000;
+  // Three directories of 24 bytes, then the data entry, then the resource at 0x58
+  const dataEntry = Buffer.alloc(16);
+  dataEntry.writeUInt32LE(RESOURCE_RVA + 0x58, 0);
+  dataEntry.writeUInt32LE(resource.length, 4);
+  const section = Buffer.concat([
+    resourceDirectory(16, SUBDIRECTORY | 0x18),
+    resourceDirectory(1, SUBDIRECTORY | 0x30),
+    resourceDirectory(0x409, 0x48),
+    dataEntry,
+    resource,
+  ]);
+
+  const dosHeader = Buffer.alloc(64);
+  dosHeader.write('MZ', 0, 'latin1');
+  dosHeader.writeUInt32LE(64, 0x3c);
+
+  const coffHeader = Buffer.alloc(24);
+  coffHeader.write('PE\0\0', 0, 'latin1');
+  coffHeader.writeUInt16LE(0x14c, 4);
+  coffHeader.writeUInt16LE(1, 6);
+  coffHeader.writeUInt16LE(224, 20);
+
+  const optionalHeader = Buffer.alloc(224);
+  optionalHeader.writeUInt16LE(0x10b, 0);
+  optionalHeader.writeUInt32LE(RESOURCE_RVA, 96 + 2 * 8);
+  optionalHeader.writeUInt32LE(section.length, 96 + 2 * 8 + 4);
+
+  const sectionHeader = Buffer.alloc(40);
+  sectionHeader.write('.rsrc', 0, 'latin1');
+  sectionHeader.writeUInt32LE(section.length, 8);
+  sectionHeader.writeUInt32LE(RESOURCE_RVA, 12);
+  sectionHeader.writeUInt32LE(section.length, 16);
+  sectionHeader.writeUInt32LE(RESOURCE_OFFSET, 20);
+
+  const headers = Buffer.concat([dosHeader, coffHeader, optionalHeader, sectionHeader]);
+  return Buffer.concat([headers, Buffer.alloc(RESOURCE_OFFSET - headers.length), section]);
+}
+
+const SERVER_STRINGS = {
+  CompanyName: '4D SAS',
+  FileDescription: '4D Server',
+  FileVersion: '20.4.0.294436',
+  OriginalFilename: '4D Server.exe',
+  ProductName: '4D Server',
+  ProductVersion: '20.4.0',
+};
+
+// ============================================
+// Tests
+// ============================================
+
+describe('parsePeVersionInfo', () => {
+  it('reads the fixed file version and the string table', async () => {
+    const info = await parsePeVersionInfo(peFile(versionResource(SERVER_STRINGS, [20, 4, 0, 29443])));
+
+    assert.deepEqual(info, { fixedFileVersion: '20.4.0.29443', strings: SERVER_STRINGS });
+  });
+
+  it('returns null for files that are not PE files', async () => {
+    assert.equal(await parsePeVersionInfo(Buffer.from('#!/bin/sh\nexit 0\n')), null);
+    assert.equal(await parsePeVersionInfo(Buffer.alloc(0)), null);
+  });
+
+  it('rejects truncated files', async () => {
+    const file = peFile(versionResource(SERVER_STRINGS, [20, 4, 0, 0]));
+    await assert.rejects(parsePeVersionInfo(file.subarray(0, RESOURCE_OFFSET + 0x20)), /unexpected end of file/);
+  });
+});
+
+describe('readPeVersionInfo', () => {
+  let root: string;
+
+  before(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), '4d-helper-pe-'));
+  });
+
+  after(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  it('reads the metadata of a Windows executable', async () => {
+    const exe = path.join(root, 'Renamed.exe');
+    await fs.promises.writeFile(exe, peFile(versionResource(SERVER_STRINGS, [20, 4, 0, 29443])));
+
+    assert.equal((await readPeVersionInfo(exe))?.strings.ProductName, '4D Server');
+
+    const metadata = await getApplicationMetadata(exe);
+    assert.equal(metadata.product, '4D Server');
+    assert.deepEqual(metadata.version, { major: 20, release: 4, patch: 0 });
+    // The build number is taken from the file version string, not limited to 16 bits
+    assert.equal(metadata.build, '294436');
+  });
+});
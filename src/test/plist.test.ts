@@ -0,0 +1,93 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parsePlist, parseXmlPlist } from '../utils/plist';
+
+const XML_PLIST = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+	<!-- Identification -->
+	<key>CFBundleIdentifier</key>
+	<string>com.4D.4D</string>
+	<key>CFBundleShortVersionString</key>
+	<string>20.4.0</string>
+	<key>CFBundleVersion</key>
+	<string>294436</string>
+	<key>CFBundleGetInfoString</key>
+	<string>4D &amp; 4D Server &#x2013; &lt;2024&gt;</string>
+	<key>Padding</key>
+	<string>  spaced  </string>
+	<key>Empty</key>
+	<string/>
+	<key>LSRequiresNativeExecution</key>
+	<true/>
+	<key>Count</key>
+	<integer>42</integer>
+	<key>Ratio</key>
+	<real>0.5</real>
+	<key>Archs</key>
+	<array>
+		<string>arm64</string>
+		<string>x86_64</string>
+	</array>
+	<key>Icon</key>
+	<data>
+	NEQ=
+	</data>
+</dict>
+</plist>
+`;
+
+/**
+ * Binary property list written by Python's plistlib:
+ * { CFBundleIdentifier: "com.4D.4D", CFBundleShortVersionString: "20.4.0",
+ *   CFBundleVersion: "294436", CFBundleExecutable: "4D",
+ *   LSRequiresNativeExecution: true, Count: 42, Name: "4D – Café",
+ *   Archs: ["arm64", "x86_64"], Built: 2024-05-01T12:00:00Z }
+ */
+const BINARY_PLIST = Buffer.from(
+  'YnBsaXN0MDDZAQIDBAUGBwgJCg0ODxAREhMUVUFyY2hzVUJ1aWx0XxASQ0ZCdW5kbGVFeGVjdXRhYmxlXxASQ0ZC' +
+  'dW5kbGVJZGVudGlmaWVyXxAaQ0ZCdW5kbGVTaG9ydFZlcnNpb25TdHJpbmdfEA9DRkJ1bmRsZVZlcnNpb25VQ291' +
+  'bnRfEBlMU1JlcXVpcmVzTmF0aXZlRXhlY3V0aW9uVE5hbWWiCwxVYXJtNjRWeDg2XzY0M0HF8TMgAAAAUjREWWNv' +
+  'bS40RC40RFYyMC40LjBWMjk0NDM2ECoJaQA0AEQAICATACAAQwBhAGYA6QgbISc8UW6AhqKnqrC3wMPN1Nvd3gAA' +
+  'AAAAAAEBAAAAAAAAABUAAAAAAAAAAAAAAAAAAADx',
+  'base64'
+);
+
+describe('parsePlist', () => {
+  it('reads an XML property list', () => {
+    assert.deepEqual(parsePlist(Buffer.from(XML_PLIST, 'utf8')), {
+      CFBundleIdentifier: 'com.4D.4D',
+      CFBundleShortVersionString: '20.4.0',
+      CFBundleVersion: '294436',
+      CFBundleGetInfoString: '4D & 4D Server – <2024>',
+      Padding: '  spaced  ',
+      Empty: '',
+      LSRequiresNativeExecution: true,
+      Count: 42,
+      Ratio: 0.5,
+      Archs: ['arm64', 'x86_64'],
+      Icon: Buffer.from('4D'),
+    });
+  });
+
+  it('reads a binary property list', () => {
+    assert.deepEqual(parsePlist(BINARY_PLIST), {
+      Archs: ['arm64', 'x86_64'],
+      Built: new Date('2024-05-01T12:00:00Z'),
+      CFBundleExecutable: '4D',
+      CFBundleIdentifier: 'com.4D.4D',
+      CFBundleShortVersionString: '20.4.0',
+      CFBundleVersion: '294436',
+      Count: 42,
+      LSRequiresNativeExecution: true,
+      Name: '4D – Café',
+    });
+  });
+
+  it('rejects malformed documents', () => {
+    assert.throws(() => parseXmlPlist('<dict><key>A</key></dict>'), /missing <plist> element/);
+    assert.throws(() => parseXmlPlist('<plist><dict><key>A</key>'), /unexpected end of document/);
+    assert.throws(() => parsePlist(Buffer.from('bplist00')), /file too short/);
+  });
+});
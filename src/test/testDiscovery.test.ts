@@ -0,0 +1,175 @@
+import { describe, it, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { discoverTests, parseTestResults, runTests, TestPatterns } from '../utils/testDiscovery';
+
+const PATTERNS: TestPatterns = {
+  classPattern: /Test$/,
+  functionPattern: /^test/,
+  methodPattern: /^test_/,
+};
+
+/**
+ * Stands in for tool4d: reads the tests to run from the user parameter and
+ * writes a result for each one, the way the runner method does. Tests whose
+ * ID ends with "fail" fail.
+ */
+const STUB_RUNNER = `#!/usr/bin/env node
+const fs = require('fs');
+const args = process.argv.slice(2);
+const { tests, resultsFile } = JSON.parse(args[args.indexOf('--user-param') + 1]);
+console.log('Running ' + tests.length + ' test(s)');
+const results = tests.map((id) =>
+  id.endsWith('fail') ? { id, passed: false, message: 'Expected 3' } : { id, passed: true, duration: 5 }
+);
+fs.writeFileSync(resultsFile, JSON.stringify({ results }));
+`;
+
+describe('discoverTests', () => {
+  let root: string;
+  let projectFile: string;
+
+  before(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), '4d-helper-tests-'));
+    projectFile = path.join(root, 'Project', 'MyApp.4DProject');
+    const sources = path.join(root, 'Project', 'Sources');
+
+    const files: { [file: string]: string } = {
+      'Classes/MathTest.4dm': [
+        'Class constructor',
+        '',
+        'Function test_add()',
+        '  ASSERT(1+2=3)',
+        '',
+        'Function get test_total() : Integer',
+        '',
+        '  Function testMultiply()',
+        '',
+        'Function helper()',
+      ].join('\r\n'),
+      'Classes/EmptyTest.4dm': 'Function helper()\n',
+      'Classes/Invoice.4dm': 'Function test_total()\n',
+      'Methods/test_strings.4dm': '// Test method\n',
+      'Methods/format.4dm': '// Not a test\n',
+    };
+
+    await fs.promises.mkdir(path.join(sources, 'Classes'), { recursive: true });
+    await fs.promises.mkdir(path.join(sources, 'Methods'), { recursive: true });
+    for (const [file, content] of Object.entries(files)) {
+      await fs.promises.writeFile(path.join(sources, file), content);
+    }
+  });
+
+  after(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  it('finds the test functions of test classes and the test methods', async () => {
+    const classFile = path.join(root, 'Project', 'Sources', 'Classes', 'MathTest.4dm');
+    const methodFile = path.join(root, 'Project', 'Sources', 'Methods', 'test_strings.4dm');
+
+    assert.deepEqual(await discoverTests(projectFile, PATTERNS), [
+      {
+        id: 'MathTest',
+        label: 'MathTest',
+        file: classFile,
+        line: 0,
+        children: [
+          { id: 'MathTest.test_add', label: 'test_add', file: classFile, line: 2, children: [] },
+          { id: 'MathTest.testMultiply', label: 'testMultiply', file: classFile, line: 7, children: [] },
+        ],
+      },
+      { id: 'test_strings', label: 'test_strings', file: methodFile, line: 0, children: [] },
+    ]);
+  });
+
+  it('returns no tests for a project without sources', async () => {
+    assert.deepEqual(await discoverTests(path.join(root, 'Other', 'Other.4DProject'), PATTERNS), []);
+  });
+});
+
+describe('parseTestResults', () => {
+  it('reads passed flags and statuses', () => {
+    const results = parseTestResults(
+      JSON.stringify({
+        results: [
+          { id: 'MathTest.test_add', passed: true, duration: 12 },
+          { id: 'MathTest.testMultiply', passed: false, message: 'Expected 6', file: '/p/MathTest.4dm', line: 9 },
+          { id: 'test_strings', status: 'skipped' },
+        ],
+      })
+    );
+
+    assert.deepEqual(results, [
+      { id: 'MathTest.test_add', status: 'passed', duration: 12, message: undefined, file: undefined, line: undefined },
+      { id: 'MathTest.testMultiply', status: 'failed', duration: undefined, message: 'Expected 6', file: '/p/MathTest.4dm', line: 9 },
+      { id: 'test_strings', status: 'skipped', duration: undefined, message: undefined, file: undefined, line: undefined },
+    ]);
+  });
+
+  it('accepts a bare array of results', () => {
+    assert.deepEqual(
+      parseTestResults('[{ "id": "test_strings", "status": "errored" }]').map((result) => result.status),
+      ['errored']
+    );
+  });
+
+  it('skips malformed entries and ignores values of the wrong type', () => {
+    const results = parseTestResults(
+      JSON.stringify({
+        results: [null, 42, 'test_strings', [], { passed: true }, { id: '' }, { id: 'a', status: 'unknown', duration: '5', line: '3' }],
+      })
+    );
+
+    assert.deepEqual(results, [
+      { id: 'a', status: 'failed', duration: undefined, message: undefined, file: undefined, line: undefined },
+    ]);
+  });
+
+  it('returns no results when there is no results list', () => {
+    assert.deepEqual(parseTestResults('null'), []);
+    assert.deepEqual(parseTestResults('{ "results": {} }'), []);
+  });
+});
+
+describe('runTests', { skip: process.platform === 'win32' }, () => {
+  let root: string;
+  let app: string;
+  let projectFile: string;
+
+  before(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), '4d-helper-runner-'));
+    app = path.join(root, 'tool4d');
+    await fs.promises.writeFile(app, STUB_RUNNER, { mode: 0o755 });
+
+    projectFile = path.join(root, 'MyApp', 'Project', 'MyApp.4DProject');
+    await fs.promises.mkdir(path.dirname(projectFile), { recursive: true });
+    await fs.promises.writeFile(projectFile, '{}');
+  });
+
+  after(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  it('passes the tests to the runner method and reads its results', async () => {
+    let output = '';
+    const results = await runTests(
+      app,
+      projectFile,
+      ['MathTest.test_add', 'MathTest.test_fail'],
+      { runnerMethod: 'runTests', timeout: 10 },
+      (text) => (output += text)
+    );
+
+    assert.deepEqual(
+      results?.map((result) => [result.id, result.status, result.message]),
+      [
+        ['MathTest.test_add', 'passed', undefined],
+        ['MathTest.test_fail', 'failed', 'Expected 3'],
+      ]
+    );
+    assert.match(output, /Running 2 test\(s\)/);
+  });
+});
@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FourDVersion, parseVersionString, formatVersion } from './fourDVersion';
+import { getApplicationMetadata } from './appMetadata';
+
+/** How deep to look for applications below a search root */
+const MAX_SEARCH_DEPTH = 4;
+
+/** Executables identifying a 4D application on Windows */
+const WINDOWS_EXECUTABLES = ['4d.exe', '4d server.exe', 'tool4d.exe'];
+
+/**
+ * A 4D application found on disk.
+ */
+export interface DetectedApplication {
+  /** Path to the .app bundle, .exe or tool4d executable */
+  path: string;
+  /** Product name (e.g. "4D", "4D Server", "tool4d") */
+  productName: string;
+  version?: FourDVersion;
+  /** Build number, when known */
+  build?: string;
+}
+
+/**
+ * Returns the folders searched for 4D applications on the current platform,
+ * followed by the additional search roots.
+ */
+export function getSearchRoots(additionalRoots: string[] = []): string[] {
+  const home = os.homedir();
+  let roots: string[];
+
+  if (process.platform === 'darwin') {
+    roots = ['/Applications', path.join(home, 'Applications')];
+  } else if (process.platform === 'win32') {
+    roots = [
+      process.env['ProgramFiles'] ?? 'C:\\Program Files',
+      process.env['ProgramFiles(x86)'] ?? 'C:\\Program Files (x86)',
+      ...(process.env['LOCALAPPDATA'] ? [path.join(process.env['LOCALAPPDATA'], 'Programs')] : []),
+    ];
+  } else {
+    roots = ['/opt', '/usr/local', path.join(home, 'tool4d'), path.join(home, '.local', 'share')];
+  }
+
+  return [...roots, ...additionalRoots.map((root) => root.replace(/^~(?=$|[\\/])/, home))];
+}
+
+/**
+ * Searches the standard install locations and the additional roots for 4D
+ * applications and reads their version.
+ * Below standard locations only folders with "4D" in their name are searched;
+ * additional roots are searched entirely (up to the maximum depth).
+ */
+export async function detectApplications(additionalRoots: string[] = []): Promise<DetectedApplication[]> {
+  const standardRoots = getSearchRoots();
+  const found = new Map<string, DetectedApplication>();
+
+  for (const root of getSearchRoots(additionalRoots)) {
+    const filtered = standardRoots.includes(root);
+    for (const candidate of await findCandidates(root, 0, filtered)) {
+      if (!found.has(candidate)) {
+        const app = await readApplicationInfo(candidate);
+        if (app) {
+          found.set(candidate, app);
+        }
+      }
+    }
+  }
+
+  return Array.from(found.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Generates a display name such as "4D v20 R8" or "tool4d v20.6".
+ */
+export function generateApplicationName(app: DetectedApplication): string {
+  if (app.version) {
+    return `${app.productName} v${formatVersion(app.version)}`;
+  }
+  return `${app.productName} (${path.basename(path.dirname(app.path))})`;
+}
+
+async function findCandidates(dir: string, depth: number, filtered: boolean): Promise<string[]> {
+  let entries: fs.Dirent[];
+  try {
+    entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const candidates: string[] = [];
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+
+    if (isCandidate(entry)) {
+      candidates.push(fullPath);
+      continue;
+    }
+
+    if (
+      entry.isDirectory() &&
+      !entry.name.startsWith('.') &&
+      !entry.name.endsWith('.app') &&
+      depth < MAX_SEARCH_DEPTH &&
+      (!filtered || depth > 0 || /4d/i.test(entry.name))
+    ) {
+      candidates.push(...(await findCandidates(fullPath, depth + 1, filtered)));
+    }
+  }
+
+  return candidates;
+}
+
+function isCandidate(entry: fs.Dirent): boolean {
+  const name = entry.name.toLowerCase();
+
+  if (process.platform === 'darwin') {
+    return entry.isDirectory() && name.endsWith('.app') && /4d/.test(name);
+  }
+  if (process.platform === 'win32') {
+    return entry.isFile() && WINDOWS_EXECUTABLES.includes(name);
+  }
+  return entry.isFile() && name === 'tool4d';
+}
+
+/**
+ * Reads the product name, version and build of a candidate. Returns null if
+ * it is not a 4D application.
+ */
+async function readApplicationInfo(appPath: string): Promise<DetectedApplication | null> {
+  const metadata = await getApplicationMetadata(appPath);
+
+  // Bundles must be identified as 4D: many unrelated apps have "4D" in their name
+  if (process.platform === 'darwin' && (!metadata.bundleId || !/^com\.4d\./i.test(metadata.bundleId))) {
+    return null;
+  }
+
+  const baseName = path.basename(appPath).replace(/\.(app|exe)$/i, '');
+  return {
+    path: appPath,
+    productName:
+      metadata.product ?? metadata.productName ?? (baseName.toLowerCase() === 'tool4d' ? 'tool4d' : baseName),
+    version: metadata.version ?? parseVersionString(appPath),
+    build: metadata.build,
+  };
+}
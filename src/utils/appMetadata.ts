@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parsePlist, PlistValue } from './plist';
+import { readPeVersionInfo, PeVersionInfo } from './peVersion';
+import { FourDVersion, parseBundleVersion, formatVersion } from './fourDVersion';
+
+/**
+ * The 4D products an application can be.
+ */
+export type FourDProduct = '4D' | '4D Server' | 'tool4d' | 'Volume Desktop';
+
+/**
+ * Metadata read from an application bundle or executable.
+ */
+export interface ApplicationMetadata {
+  /** Bundle identifier (macOS), e.g. "com.4D.4D" */
+  bundleId?: string;
+  /** Product name, e.g. "4D" or "4D Server" */
+  productName?: string;
+  /** Company name (Windows version resource) */
+  companyName?: string;
+  /** Original file name of the executable (Windows version resource) */
+  originalFilename?: string;
+  /** The 4D product, when it can be identified */
+  product?: FourDProduct;
+  /** Version string as stored in the application, e.g. "20.4.0" for 20 R4 */
+  versionString?: string;
+  /** Build number */
+  build?: string;
+  /** Version parsed from the version string */
+  version?: FourDVersion;
+}
+
+/**
+ * Metadata cached per application path, along with the modification time of
+ * the file it was read from.
+ */
+const metadataCache = new Map<string, { mtimeMs: number; metadata: ApplicationMetadata }>();
+
+/**
+ * Reads the metadata of an application: the Info.plist of a .app bundle, or
+ * the version resource of a Windows executable. Results are cached
+ * until the file they were read from changes.
+ * Returns an empty object when nothing can be read.
+ */
+export async function getApplicationMetadata(appPath: string): Promise<ApplicationMetadata> {
+  const source = getMetadataFile(appPath);
+  if (!source) {
+    return {};
+  }
+
+  let mtimeMs: number;
+  try {
+    mtimeMs = (await fs.promises.stat(source)).mtimeMs;
+  } catch {
+    return {};
+  }
+
+  const cached = metadataCache.get(appPath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.metadata;
+  }
+
+  let metadata: ApplicationMetadata = {};
+  try {
+    if (source === appPath) {
+      const versionInfo = await readPeVersionInfo(source);
+      metadata = versionInfo ? readExecutableMetadata(versionInfo) : {};
+    } else {
+      metadata = readBundleMetadata(parsePlist(await fs.promises.readFile(source)));
+    }
+    metadata.product = identifyProduct(metadata);
+  } catch {
+    // Unreadable metadata: fall back to what the name and path tell
+  }
+
+  metadataCache.set(appPath, { mtimeMs, metadata });
+  return metadata;
+}
+
+/**
+ * Formats the version and build of an application for display,
+ * e.g. "v20 R4 (build 294436)".
+ */
+export function formatVersionLabel(metadata: ApplicationMetadata): string {
+  const version = metadata.version ? `v${formatVersion(metadata.version)}` : metadata.versionString;
+  if (!version) {
+    return metadata.build ? `build ${metadata.build}` : '';
+  }
+  return metadata.build ? `${version} (build ${metadata.build})` : version;
+}
+
+function getMetadataFile(appPath: string): string | undefined {
+  const lower = appPath.toLowerCase();
+  if (lower.endsWith('.app')) {
+    return path.join(appPath, 'Contents', 'Info.plist');
+  }
+  if (lower.endsWith('.exe')) {
+    return appPath;
+  }
+  return undefined;
+}
+
+function readBundleMetadata(plist: PlistValue): ApplicationMetadata {
+  if (!plist || typeof plist !== 'object' || Array.isArray(plist) || plist instanceof Date || Buffer.isBuffer(plist)) {
+    return {};
+  }
+
+  const text = (key: string): string | undefined => {
+    const value = plist[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+
+  const versionString = text('CFBundleShortVersionString');
+  return {
+    bundleId: text('CFBundleIdentifier'),
+    productName: text('CFBundleName') ?? text('CFBundleDisplayName'),
+    versionString,
+    build: text('CFBundleVersion'),
+    version: versionString ? parseBundleVersion(versionString) : undefined,
+  };
+}
+
+function readExecutableMetadata(info: PeVersionInfo): ApplicationMetadata {
+  const text = (key: string): string | undefined => info.strings[key]?.trim() || undefined;
+
+  const versionString = text('ProductVersion') ?? text('FileVersion') ?? info.fixedFileVersion;
+  // The last component of the file version is the build number. The string is
+  // preferred: numeric components are limited to 16 bits
+  const fileVersion = text('FileVersion');
+  const build = (fileVersion && /^\d+(\.\d+){3}$/.test(fileVersion) ? fileVersion : info.fixedFileVersion)
+    ?.split('.')[3];
+
+  return {
+    productName: text('ProductName') ?? text('FileDescription'),
+    companyName: text('CompanyName'),
+    originalFilename: text('OriginalFilename') ?? text('InternalName'),
+    versionString,
+    build: build && build !== '0' ? build : undefined,
+    version: versionString ? parseBundleVersion(versionString) : undefined,
+  };
+}
+
+/**
+ * Tells which 4D product an application is from its bundle identifier, or from
+ * its product and original file names. Merged applications keep the bundle
+ * identifier or original file name of 4D Volume Desktop, even when renamed.
+ */
+function identifyProduct(metadata: ApplicationMetadata): FourDProduct | undefined {
+  switch (metadata.bundleId?.toLowerCase()) {
+    case 'com.4d.4d':
+      return '4D';
+    case 'com.4d.4dserver':
+      return '4D Server';
+    case 'com.4d.4druntimevolumelicense':
+      return 'Volume Desktop';
+    case 'com.4d.tool4d':
+      return 'tool4d';
+  }
+
+  const names = [metadata.originalFilename, metadata.productName]
+    .filter((name): name is string => !!name)
+    .map((name) => name.toLowerCase().replace(/\.exe$/, '').trim());
+
+  for (const name of names) {
+    if (name.includes('tool4d')) {
+      return 'tool4d';
+    }
+    if (name.includes('volume') || name.includes('runtime')) {
+      return 'Volume Desktop';
+    }
+    if (/^4d server\b/.test(name)) {
+      return '4D Server';
+    }
+    if (/^4d\b/.test(name)) {
+      return '4D';
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,137 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { FourDVersion, parseVersionString } from './fourDVersion';
+import { getApplicationMetadata } from './appMetadata';
+
+/**
+ * A 4D application configured in `4d-helper.applications`.
+ */
+export interface FourDApplication {
+  name: string;
+  path: string;
+  /** Version of the application (e.g. "20 R4"); read from the application or guessed from its name if missing */
+  version?: string;
+  /** Kind of application; detected from the application if missing */
+  kind?: ApplicationKind;
+}
+
+/**
+ * The kinds of 4D applications, which decide what an application can be used for.
+ */
+export type ApplicationKind = 'ide' | 'server' | 'tool4d' | 'volumeDesktop';
+
+/** Kinds that can open a project (interpreted or compiled) */
+export const PROJECT_KINDS: ApplicationKind[] = ['ide', 'tool4d'];
+/** Kinds that can connect to a 4D Server */
+export const CLIENT_KINDS: ApplicationKind[] = ['ide', 'volumeDesktop'];
+/** Kinds that can publish a project as a server */
+export const SERVER_KINDS: ApplicationKind[] = ['server'];
+
+export const APPLICATION_KIND_LABELS: Record<ApplicationKind, string> = {
+  ide: '4D',
+  server: '4D Server',
+  tool4d: 'tool4d',
+  volumeDesktop: '4D Volume Desktop',
+};
+
+export const APPLICATION_KIND_ICONS: Record<ApplicationKind, string> = {
+  ide: '$(window)',
+  server: '$(server)',
+  tool4d: '$(terminal)',
+  volumeDesktop: '$(package)',
+};
+
+/** Detected kinds, per application path */
+const kindCache = new Map<string, ApplicationKind>();
+
+/**
+ * Get the configured 4D applications (merged from all settings levels).
+ */
+export function getApplications(): FourDApplication[] {
+  const config = vscode.workspace.getConfiguration('4d-helper');
+  return config.get<FourDApplication[]>('applications', []);
+}
+
+/**
+ * Find a configured application by its display name.
+ */
+export function findApplicationByName(name: string): FourDApplication | undefined {
+  return getApplications().find((app) => app.name === name);
+}
+
+/**
+ * Returns the version of an application: the configured version, the one
+ * stored in the application itself, or the one found in its name or path.
+ */
+export async function getApplicationVersion(app: FourDApplication): Promise<FourDVersion | undefined> {
+  return (
+    (app.version ? parseVersionString(app.version) : undefined) ??
+    (await getApplicationMetadata(app.path)).version ??
+    parseVersionString(app.name) ??
+    parseVersionString(app.path)
+  );
+}
+
+/**
+ * Returns the kind of an application: the configured kind, or the one detected
+ * from its metadata (bundle identifier, version resource) or its file name.
+ * Detected kinds are cached per application path.
+ */
+export async function getApplicationKind(app: FourDApplication): Promise<ApplicationKind> {
+  if (app.kind && app.kind in APPLICATION_KIND_LABELS) {
+    return app.kind;
+  }
+
+  const cached = kindCache.get(app.path);
+  if (cached) {
+    return cached;
+  }
+
+  const kind = detectKind((await getApplicationMetadata(app.path)).product, app.path);
+  kindCache.set(app.path, kind);
+  return kind;
+}
+
+/**
+ * Returns the applications of the given kinds, in their configured order.
+ */
+export async function filterApplicationsByKind(
+  applications: FourDApplication[],
+  kinds: ApplicationKind[]
+): Promise<FourDApplication[]> {
+  const appKinds = await Promise.all(applications.map((app) => getApplicationKind(app)));
+  return applications.filter((_app, i) => kinds.includes(appKinds[i]));
+}
+
+/**
+ * Forgets the detected kinds, e.g. after applications were updated in place.
+ */
+export function clearApplicationKindCache(): void {
+  kindCache.clear();
+}
+
+function detectKind(product: string | undefined, appPath: string): ApplicationKind {
+  switch (product) {
+    case '4D Server':
+      return 'server';
+    case 'tool4d':
+      return 'tool4d';
+    case 'Volume Desktop':
+      return 'volumeDesktop';
+    case '4D':
+      return 'ide';
+  }
+
+  // Metadata unavailable (e.g. tool4d on Linux): rely on the file name
+  const name = path.basename(appPath).toLowerCase();
+  if (name.includes('tool4d')) {
+    return 'tool4d';
+  }
+  if (name.includes('server')) {
+    return 'server';
+  }
+  if (name.includes('volume desktop')) {
+    return 'volumeDesktop';
+  }
+  return 'ide';
+}
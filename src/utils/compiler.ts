@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { open4DProject, LaunchOptions } from './launcher';
+import { watchInstanceExit } from './processManager';
+
+/**
+ * Name of the method written into the project to run the compilation.
+ */
+export const COMPILE_METHOD_NAME = '__4DHelper_Compile';
+
+/**
+ * Comment identifying the generated method, so that a method left behind by
+ * an interrupted run can be told apart from a user method with the same name.
+ */
+const GENERATED_METHOD_MARKER = '// Generated by 4D Helper to compile the project headless.';
+
+/**
+ * Source of the compile method. It reads the path of the results file from
+ * the user parameter, compiles the project and writes the result as JSON.
+ * Custom compile methods must follow the same contract.
+ */
+const COMPILE_METHOD_SOURCE = `//%attributes = {"invisible":true}
+${GENERATED_METHOD_MARKER} Deleted after the run.
+var $resultPath : Text
+var $value : Real
+var $result; $error; $message : Object
+var $messages : Collection
+
+$value:=Get database parameter(User param value; $resultPath)
+$result:=Compile project()
+
+$messages:=New collection()
+If ($result.errors#Null)
+	For each ($error; $result.errors)
+		$message:=New object("isError"; $error.isError; "message"; $error.message; "line"; $error.lineInFile)
+		If ($error.code#Null)
+			$message.type:=$error.code.type
+			$message.methodName:=$error.code.methodName
+			If ($error.code.file#Null)
+				$message.file:=$error.code.file.platformPath
+			End if
+		End if
+		$messages.push($message)
+	End for each
+End if
+
+File($resultPath; fk platform path).setText(JSON Stringify(New object("success"; $result.success; "errors"; $messages)))
+QUIT 4D
+`;
+
+/**
+ * An error or warning reported by the 4D compiler.
+ */
+export interface CompilerMessage {
+  /** true for errors, false for warnings */
+  isError: boolean;
+  message: string;
+  /** Path to the source file, when known */
+  file?: string;
+  /** Line in the source file (1-based), when known */
+  line?: number;
+  /** Code type reported by 4D (projectMethod, classFunction, ...) */
+  type?: string;
+  methodName?: string;
+}
+
+export interface CompileResult {
+  success: boolean;
+  errors: CompilerMessage[];
+}
+
+export interface CompileSettings {
+  /** Project method following the compile method contract; generated if empty */
+  startupMethod?: string;
+  /** Seconds before the compilation is aborted */
+  timeout: number;
+}
+
+/**
+ * Compiles a project by running it headless with a startup method that calls
+ * `Compile project` and writes the result to a JSON file.
+ *
+ * @param isCancelled - Polled while waiting, stops 4D when it returns true
+ */
+export async function compileProject(
+  appPath: string,
+  projectFile: string,
+  settings: CompileSettings,
+  isCancelled: () => boolean = () => false
+): Promise<CompileResult> {
+  const resultPath = path.join(os.tmpdir(), `4d-helper-compile-${Date.now()}.json`);
+  const generatedMethod = settings.startupMethod
+    ? null
+    : path.join(path.dirname(projectFile), 'Sources', 'Methods', `${COMPILE_METHOD_NAME}.4dm`);
+
+  const options: LaunchOptions = {
+    headless: true,
+    dataless: true,
+    skipOnStartup: true,
+    startupMethod: settings.startupMethod || COMPILE_METHOD_NAME,
+    userParam: resultPath,
+  };
+
+  if (generatedMethod && !(await canWriteGeneratedMethod(generatedMethod))) {
+    throw new Error(
+      `The project already has a ${COMPILE_METHOD_NAME} method. Rename it or set 4d-helper.compile.startupMethod.`
+    );
+  }
+
+  try {
+    if (generatedMethod) {
+      await fs.promises.mkdir(path.dirname(generatedMethod), { recursive: true });
+      await fs.promises.writeFile(generatedMethod, COMPILE_METHOD_SOURCE, 'utf8');
+    }
+
+    const instance = await open4DProject(appPath, projectFile, options);
+    if (!instance) {
+      throw new Error('Could not identify the 4D process running the compilation');
+    }
+
+    const exit = await watchInstanceExit(instance, settings.timeout * 1000, isCancelled);
+    if (exit.reason !== 'exited') {
+      throw new Error(exit.reason === 'cancelled' ? 'Compilation cancelled' : 'Compilation timed out');
+    }
+
+    let json: string;
+    try {
+      json = await fs.promises.readFile(resultPath, 'utf8');
+    } catch {
+      throw new Error(`4D exited with code ${exit.code} without writing compilation results`);
+    }
+
+    return parseCompileResult(json, projectFile);
+  } finally {
+    if (generatedMethod) {
+      await fs.promises.rm(generatedMethod, { force: true });
+    }
+    await fs.promises.rm(resultPath, { force: true });
+  }
+}
+
+/**
+ * Parses the JSON written by the compile method. Also accepts the raw result
+ * of `Compile project`, where the location is nested in a `code` object.
+ */
+export function parseCompileResult(json: string, projectFile: string): CompileResult {
+  const raw = asObject(JSON.parse(json));
+  const rawErrors: unknown[] = Array.isArray(raw.errors) ? raw.errors : [];
+
+  const errors = rawErrors.map((entry): CompilerMessage => {
+    const e = asObject(entry);
+    const code = asObject(e.code);
+    const message: CompilerMessage = {
+      isError: e.isError !== false,
+      message: typeof e.message === 'string' ? e.message : 'Unknown compiler error',
+      line: toLine(e.lineInFile ?? e.line),
+      type: asText(e.type) ?? asText(code.type),
+      methodName: asText(e.methodName) ?? asText(code.methodName),
+    };
+
+    message.file = asText(e.file) ?? guessSourceFile(projectFile, message.type, message.methodName);
+    return message;
+  });
+
+  return {
+    success: raw.success === true || (raw.success === undefined && !errors.some((e) => e.isError)),
+    errors,
+  };
+}
+
+/**
+ * Tells whether the compile method can be written: the method does not exist,
+ * or is a generated method left behind by an interrupted run.
+ */
+async function canWriteGeneratedMethod(methodFile: string): Promise<boolean> {
+  try {
+    return (await fs.promises.readFile(methodFile, 'utf8')).includes(GENERATED_METHOD_MARKER);
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Maps a code location reported by 4D to its .4dm file under Project/Sources.
+ */
+function guessSourceFile(
+  projectFile: string,
+  type: string | undefined,
+  methodName: string | undefined
+): string | undefined {
+  if (!methodName) {
+    return undefined;
+  }
+
+  const sources = path.join(path.dirname(projectFile), 'Sources');
+
+  switch (type) {
+    case 'projectMethod':
+      return path.join(sources, 'Methods', `${methodName}.4dm`);
+    case 'classFunction':
+    case 'classConstructor':
+      // Class members are reported as "ClassName.member"
+      return path.join(sources, 'Classes', `${methodName.split('.')[0]}.4dm`);
+    case 'databaseMethod':
+      return path.join(sources, 'DatabaseMethods', `${methodName}.4dm`);
+    default:
+      return undefined;
+  }
+}
+
+function asObject(value: unknown): { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as { [key: string]: unknown })
+    : {};
+}
+
+function asText(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function toLine(value: unknown): number | undefined {
+  const line = Number(value);
+  return Number.isInteger(line) && line > 0 ? line : undefined;
+}
@@ -0,0 +1,218 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { COMPONENTS_FOLDER_PATTERN } from './projectFinder';
+
+/** Dependencies file of a project, relative to its package folder */
+const DEPENDENCIES_FILE = path.join('Project', 'Sources', 'dependencies.json');
+/** File mapping dependencies to local paths, in the package folder or a parent */
+const ENVIRONMENT_FILE = 'environment4d.json';
+
+/**
+ * How a component is available:
+ * - source: a component project (.4DProject) that can be opened on its own
+ * - built: a compiled component (.4DZ)
+ * - notFound: declared but not found on disk (e.g. a GitHub dependency not downloaded)
+ */
+export type ComponentKind = 'source' | 'built' | 'notFound';
+
+/**
+ * A component used by a project.
+ */
+export interface FourDComponent {
+  name: string;
+  kind: ComponentKind;
+  /** Where the component is declared: a Components folder or the dependencies file */
+  declaredIn: 'componentsFolder' | 'dependencies';
+  /** Component package (folder, .4dbase or .4DZ), when found */
+  path?: string;
+  /** Project file of a source component */
+  projectFile?: string;
+  /** Archive of a built component */
+  builtFile?: string;
+  /** GitHub repository ("owner/repo") of a GitHub dependency */
+  github?: string;
+  /** Version rule of a GitHub dependency */
+  version?: string;
+}
+
+/**
+ * Lists the components a project uses: those declared in its dependencies
+ * file (located through `environment4d.json` or the Components folder), then
+ * those found in its Components folders. Sorted by name.
+ *
+ * @param projectFile - Path to the .4DProject file
+ */
+export async function findProjectComponents(projectFile: string): Promise<FourDComponent[]> {
+  const packageFolder = path.dirname(path.dirname(projectFile));
+  const componentsFolders = await findComponentsFolders(packageFolder);
+  const components = new Map<string, FourDComponent>();
+
+  const dependencies = await readJsonObject(path.join(packageFolder, DEPENDENCIES_FILE));
+  const environment = await findEnvironmentPaths(packageFolder);
+
+  for (const [name, value] of Object.entries(asObject(dependencies?.dependencies))) {
+    const declaration = asObject(value);
+    const location =
+      environment.get(name) ?? (await findInComponentsFolders(componentsFolders, name));
+
+    components.set(name, {
+      name,
+      declaredIn: 'dependencies',
+      ...(location ? await inspectComponent(location) : { kind: 'notFound' }),
+      github: typeof declaration.github === 'string' ? declaration.github : undefined,
+      version: typeof declaration.version === 'string' ? declaration.version : undefined,
+    });
+  }
+
+  for (const folder of componentsFolders) {
+    for (const entry of await readDirectory(folder)) {
+      const name = componentName(entry);
+      if (!name || components.has(name)) {
+        continue;
+      }
+      components.set(name, {
+        name,
+        declaredIn: 'componentsFolder',
+        ...(await inspectComponent(path.join(folder, entry.name))),
+      });
+    }
+  }
+
+  return Array.from(components.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Tells whether a component package is a source or a built component.
+ * A package containing a .4DProject file is a source component, even if it
+ * also contains a .4DZ archive.
+ */
+async function inspectComponent(
+  location: string
+): Promise<Pick<FourDComponent, 'kind' | 'path' | 'projectFile' | 'builtFile'>> {
+  let stats: fs.Stats;
+  try {
+    stats = await fs.promises.stat(location);
+  } catch {
+    return { kind: 'notFound', path: location };
+  }
+
+  if (!stats.isDirectory()) {
+    return /\.4dz$/i.test(location)
+      ? { kind: 'built', path: location, builtFile: location }
+      : { kind: 'notFound', path: location };
+  }
+
+  const projectFolder = path.join(location, 'Project');
+  const projectEntry = (await readDirectory(projectFolder)).find((entry) => /\.4dproject$/i.test(entry.name));
+  if (projectEntry) {
+    return { kind: 'source', path: location, projectFile: path.join(projectFolder, projectEntry.name) };
+  }
+
+  const builtEntry = (await readDirectory(location)).find((entry) => /\.4dz$/i.test(entry.name));
+  if (builtEntry) {
+    return { kind: 'built', path: location, builtFile: path.join(location, builtEntry.name) };
+  }
+
+  return { kind: 'notFound', path: location };
+}
+
+/**
+ * Returns the Components folders of a package (Components, Components.src, ...).
+ */
+async function findComponentsFolders(packageFolder: string): Promise<string[]> {
+  return (await readDirectory(packageFolder))
+    .filter((entry) => entry.isDirectory() && COMPONENTS_FOLDER_PATTERN.test(entry.name))
+    .map((entry) => path.join(packageFolder, entry.name));
+}
+
+async function findInComponentsFolders(folders: string[], name: string): Promise<string | undefined> {
+  for (const folder of folders) {
+    const entry = (await readDirectory(folder)).find((candidate) => componentName(candidate) === name);
+    if (entry) {
+      return path.join(folder, entry.name);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Reads the local paths of dependencies from the nearest `environment4d.json`,
+ * in the package folder or one of its parents. Paths are relative to the file
+ * or `file://` URLs; invalid URLs are ignored.
+ */
+async function findEnvironmentPaths(packageFolder: string): Promise<Map<string, string>> {
+  const paths = new Map<string, string>();
+
+  for (let folder = packageFolder; ; folder = path.dirname(folder)) {
+    const environment = await readJsonObject(path.join(folder, ENVIRONMENT_FILE));
+    if (environment) {
+      for (const [name, value] of Object.entries(asObject(environment.dependencies))) {
+        const location = typeof value === 'string' && value ? resolveEnvironmentPath(folder, value) : undefined;
+        if (location) {
+          paths.set(name, location);
+        }
+      }
+      break;
+    }
+    if (path.dirname(folder) === folder) {
+      break;
+    }
+  }
+
+  return paths;
+}
+
+function resolveEnvironmentPath(folder: string, value: string): string | undefined {
+  if (!value.startsWith('file:')) {
+    return path.resolve(folder, value);
+  }
+  try {
+    return fileURLToPath(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Name of the component a Components folder entry holds, e.g. "MyComponent"
+ * for a "MyComponent.4dbase" folder or link, or a "MyComponent.4DZ" file;
+ * undefined for other entries.
+ */
+function componentName(entry: fs.Dirent): string | undefined {
+  if (entry.name.startsWith('.')) {
+    return undefined;
+  }
+  if (entry.isFile()) {
+    return entry.name.match(/^(.+)\.4dz$/i)?.[1];
+  }
+  if (entry.isDirectory() || entry.isSymbolicLink()) {
+    return entry.name.replace(/\.4dbase$/i, '');
+  }
+  return undefined;
+}
+
+async function readDirectory(folder: string): Promise<fs.Dirent[]> {
+  try {
+    return await fs.promises.readdir(folder, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+}
+
+async function readJsonObject(filePath: string): Promise<Record<string, unknown> | undefined> {
+  try {
+    const content: unknown = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+    return typeof content === 'object' && content !== null && !Array.isArray(content)
+      ? (content as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function asObject(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
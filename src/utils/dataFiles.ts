@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Folders next to the project that never contain data files.
+ */
+const IGNORED_FOLDER_PATTERN = /^(project|components([\._]src)?|node_modules|logs|resources|build|documentation)$/i;
+
+/**
+ * A data file (.4DD) found on disk with metadata for display.
+ */
+export interface DataFileInfo {
+  /** Full path to the .4DD file */
+  path: string;
+  /** File name without extension */
+  name: string;
+  /** Size in bytes */
+  size: number;
+  /** Last modification time */
+  modified: Date;
+  /** A .4DIndx index file sits next to the data file */
+  hasIndex: boolean;
+  /** A .journal file with the same name sits next to the data file */
+  hasJournal: boolean;
+  /** Where the data file was found */
+  location: 'data' | 'sibling' | 'recent';
+}
+
+/** Order of the locations in the data file picker */
+const LOCATION_ORDER: DataFileInfo['location'][] = ['data', 'sibling', 'recent'];
+
+/**
+ * Finds the data files of a project: in its Data folder, in the folders next
+ * to it (e.g. "Data copy", "TestData") and in the given additional folders.
+ * Files are listed in that order, by folder then file name; a file found in
+ * several places keeps its first location.
+ *
+ * @param projectFilePath - Path to the .4DProject file (in <root>/Project)
+ * @param recentFolders - Folders of recently used data files
+ */
+export async function findDataFiles(
+  projectFilePath: string | undefined,
+  recentFolders: string[] = []
+): Promise<DataFileInfo[]> {
+  const found = new Map<string, DataFileInfo>();
+
+  const addFrom = async (dir: string, location: DataFileInfo['location']) => {
+    for (const file of await list4DDFiles(dir)) {
+      if (!found.has(file)) {
+        const info = await getDataFileInfo(file, location);
+        if (info) {
+          found.set(file, info);
+        }
+      }
+    }
+  };
+
+  if (projectFilePath) {
+    const root = path.dirname(path.dirname(projectFilePath));
+    await addFrom(path.join(root, 'Data'), 'data');
+
+    try {
+      const entries = (await fs.promises.readdir(root, { withFileTypes: true }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      for (const entry of entries) {
+        if (
+          entry.isDirectory() &&
+          !entry.name.startsWith('.') &&
+          entry.name !== 'Data' &&
+          !IGNORED_FOLDER_PATTERN.test(entry.name)
+        ) {
+          await addFrom(path.join(root, entry.name), 'sibling');
+        }
+      }
+    } catch {
+      // Ignore inaccessible project root
+    }
+  }
+
+  for (const dir of recentFolders) {
+    await addFrom(dir, 'recent');
+  }
+
+  return Array.from(found.values());
+}
+
+/**
+ * Reads the metadata of a data file. Returns null if it does not exist.
+ */
+export async function getDataFileInfo(
+  filePath: string,
+  location: DataFileInfo['location'] = 'recent'
+): Promise<DataFileInfo | null> {
+  try {
+    const stats = await fs.promises.stat(filePath);
+    const dir = path.dirname(filePath);
+    const name = path.basename(filePath, path.extname(filePath));
+    const siblings = await fs.promises.readdir(dir);
+
+    return {
+      path: filePath,
+      name,
+      size: stats.size,
+      modified: stats.mtime,
+      hasIndex: siblings.some((f) => f.toLowerCase() === `${name}.4dindx`.toLowerCase()),
+      hasJournal: siblings.some((f) => f.toLowerCase() === `${name}.journal`.toLowerCase()),
+      location,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sorts data files for display: the preferred file first, then by location
+ * and most recently modified.
+ */
+export function sortDataFiles(dataFiles: DataFileInfo[], preferred?: string): DataFileInfo[] {
+  return [...dataFiles].sort((a, b) =>
+    Number(b.path === preferred) - Number(a.path === preferred) ||
+    LOCATION_ORDER.indexOf(a.location) - LOCATION_ORDER.indexOf(b.location) ||
+    b.modified.getTime() - a.modified.getTime()
+  );
+}
+
+/**
+ * Formats a size in bytes for display (e.g. "12.3 MB").
+ */
+export function formatFileSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
+}
+
+async function list4DDFiles(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile() && /\.4dd$/i.test(entry.name))
+      .map((entry) => path.join(dir, entry.name))
+      .sort((a, b) => a.localeCompare(b));
+  } catch {
+    return [];
+  }
+}
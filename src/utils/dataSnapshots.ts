@@ -0,0 +1,219 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LaunchOptions } from './launcher';
+
+/** Name of the metadata file stored in each snapshot folder */
+const SNAPSHOT_METADATA_FILE = 'snapshot.json';
+
+/**
+ * A copy of a data file with its index and journal.
+ */
+export interface DataSnapshot {
+  /** Folder holding the snapshot files */
+  directory: string;
+  /** Data file the snapshot was taken from */
+  dataFile: string;
+  /** Optional label given when the snapshot was taken */
+  label?: string;
+  /** Creation time in milliseconds */
+  createdAt: number;
+  /** Names of the files in the snapshot */
+  files: string[];
+  /** Total size in bytes */
+  size: number;
+}
+
+// Managed folder where snapshots are stored
+let snapshotsDirectory: string | null = null;
+
+export function setSnapshotsDirectory(directory: string) {
+  snapshotsDirectory = directory;
+}
+
+function getSnapshotsDirectory(): string {
+  if (!snapshotsDirectory) {
+    throw new Error('Snapshots directory is not configured');
+  }
+  return snapshotsDirectory;
+}
+
+/**
+ * Returns the data file a launch will open: the configured data file, or the
+ * default data file in the project's Data folder. Undefined when the launch
+ * does not use an existing data file.
+ */
+export async function resolveLaunchDataFile(
+  projectPath: string,
+  options: LaunchOptions
+): Promise<string | undefined> {
+  if (options.dataless) {
+    return undefined;
+  }
+  if (options.dataFile) {
+    return options.dataFile;
+  }
+
+  const dataFolder = path.join(path.dirname(path.dirname(projectPath)), 'Data');
+  try {
+    const files = (await fs.promises.readdir(dataFolder)).filter((f) => /\.4dd$/i.test(f));
+    const dataFile = files.find((f) => f.toLowerCase() === 'data.4dd') ?? files[0];
+    return dataFile ? path.join(dataFolder, dataFile) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Copies a data file, its index and its journal into a new snapshot folder.
+ */
+export async function createSnapshot(dataFile: string, label?: string): Promise<DataSnapshot> {
+  const files = await listDataFiles(dataFile);
+  if (!files.some((f) => f.toLowerCase().endsWith('.4dd'))) {
+    throw new Error(`Data file not found: ${dataFile}`);
+  }
+
+  const createdAt = Date.now();
+  const directory = path.join(
+    getDataFileSnapshotsDirectory(dataFile),
+    new Date(createdAt).toISOString().replace(/[:.]/g, '-')
+  );
+  await fs.promises.mkdir(directory, { recursive: true });
+
+  try {
+    let size = 0;
+    for (const file of files) {
+      const source = path.join(path.dirname(dataFile), file);
+      await fs.promises.copyFile(source, path.join(directory, file));
+      size += (await fs.promises.stat(source)).size;
+    }
+
+    // The folder is not stored: snapshots are found wherever the folder is
+    const metadata = { dataFile, label, createdAt, files, size };
+    await fs.promises.writeFile(
+      path.join(directory, SNAPSHOT_METADATA_FILE),
+      JSON.stringify(metadata, null, 2),
+      'utf8'
+    );
+    return { directory, ...metadata };
+  } catch (error) {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+/**
+ * Lists the snapshots, most recent first.
+ *
+ * @param dataFile - Only list the snapshots of this data file
+ */
+export async function listSnapshots(dataFile?: string): Promise<DataSnapshot[]> {
+  const parents = dataFile
+    ? [getDataFileSnapshotsDirectory(dataFile)]
+    : (await readDirNames(getSnapshotsDirectory())).map((name) =>
+      path.join(getSnapshotsDirectory(), name)
+    );
+
+  const snapshots: DataSnapshot[] = [];
+  for (const parent of parents) {
+    for (const name of await readDirNames(parent)) {
+      const snapshot = await readSnapshot(path.join(parent, name));
+      if (snapshot) {
+        snapshots.push(snapshot);
+      }
+    }
+  }
+
+  return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Replaces the data file, its index and journal with the snapshot copies.
+ * The data file must not be open in 4D.
+ */
+export async function restoreSnapshot(snapshot: DataSnapshot): Promise<void> {
+  const dataFolder = path.dirname(snapshot.dataFile);
+  await fs.promises.mkdir(dataFolder, { recursive: true });
+
+  // Remove files that did not exist when the snapshot was taken (e.g. a new journal)
+  for (const file of await listDataFiles(snapshot.dataFile)) {
+    if (!snapshot.files.includes(file)) {
+      await fs.promises.rm(path.join(dataFolder, file), { force: true });
+    }
+  }
+
+  for (const file of snapshot.files) {
+    await fs.promises.copyFile(path.join(snapshot.directory, file), path.join(dataFolder, file));
+  }
+}
+
+export async function deleteSnapshot(snapshot: DataSnapshot): Promise<void> {
+  await fs.promises.rm(snapshot.directory, { recursive: true, force: true });
+
+  // Remove the data file folder once its last snapshot is gone
+  const parent = path.dirname(snapshot.directory);
+  if ((await readDirNames(parent)).length === 0) {
+    await fs.promises.rm(parent, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Lists the names of the files belonging to a data file: the .4DD, .4DIndx and
+ * .journal with the same name. Other data files of the folder may have their own.
+ */
+async function listDataFiles(dataFile: string): Promise<string[]> {
+  const base = path.basename(dataFile, path.extname(dataFile)).toLowerCase();
+  try {
+    const entries = await fs.promises.readdir(path.dirname(dataFile), { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile())
+      .map((entry) => entry.name)
+      .filter((name) => {
+        const lower = name.toLowerCase();
+        return lower === `${base}.4dd` || lower === `${base}.4dindx` || lower === `${base}.journal`;
+      });
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Snapshots of a data file are grouped in a folder named after the data file
+ * and a hash of its path, so that files with the same name do not collide.
+ */
+function getDataFileSnapshotsDirectory(dataFile: string): string {
+  const resolved = path.resolve(dataFile);
+  const hash = crypto.createHash('sha1').update(resolved).digest('hex').slice(0, 8);
+  const name = path.basename(resolved, path.extname(resolved)).replace(/[^\w.-]/g, '_');
+  return path.join(getSnapshotsDirectory(), `${name}-${hash}`);
+}
+
+async function readSnapshot(directory: string): Promise<DataSnapshot | null> {
+  try {
+    const metadata = JSON.parse(
+      await fs.promises.readFile(path.join(directory, SNAPSHOT_METADATA_FILE), 'utf8')
+    );
+    if (typeof metadata?.dataFile !== 'string' || !Array.isArray(metadata.files)) {
+      return null;
+    }
+    return {
+      directory,
+      dataFile: metadata.dataFile,
+      label: typeof metadata.label === 'string' ? metadata.label : undefined,
+      createdAt: Number(metadata.createdAt) || 0,
+      files: metadata.files.filter((f: unknown): f is string => typeof f === 'string'),
+      size: Number(metadata.size) || 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function readDirNames(directory: string): Promise<string[]> {
+  try {
+    const entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    return entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+  } catch {
+    return [];
+  }
+}
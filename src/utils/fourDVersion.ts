@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+
+/**
+ * A 4D version, e.g. 20 R4 (major 20, release 4) or 20.2 (major 20, LTS, patch 2).
+ */
+export interface FourDVersion {
+  major: number;
+  /** Feature release number (R), 0 for LTS versions */
+  release: number;
+  /** Bug fix number */
+  patch: number;
+}
+
+/**
+ * Parses a version code as used by 4D (`Application version`,
+ * `compatibilityVersion`): "2040" is 20 R4, "2002" is 20.2.
+ */
+export function parseVersionCode(code: string | number): FourDVersion | undefined {
+  const match = /^(\d{2})(\d)(\d)$/.exec(String(code).trim());
+  if (!match) {
+    return undefined;
+  }
+  return { major: Number(match[1]), release: Number(match[2]), patch: Number(match[3]) };
+}
+
+/**
+ * Finds a 4D version in a display string such as an application name or path:
+ * "4D v20 R4", "20R4", "4D 20.2", "v19". Version codes ("2040") are accepted too.
+ */
+export function parseVersionString(text: string): FourDVersion | undefined {
+  const feature = /(?:^|[^\d])v?(\d{2})\s*R(\d+)(?:\.(\d+))?/i.exec(text);
+  if (feature) {
+    return { major: Number(feature[1]), release: Number(feature[2]), patch: Number(feature[3] ?? 0) };
+  }
+
+  const lts = /(?:^|[^\d.])v?(\d{2})\.(\d+)/i.exec(text);
+  if (lts) {
+    return { major: Number(lts[1]), release: 0, patch: Number(lts[2]) };
+  }
+
+  const code = parseVersionCode(text);
+  if (code) {
+    return code;
+  }
+
+  const major = /\bv(\d{2})\b/i.exec(text);
+  if (major) {
+    return { major: Number(major[1]), release: 0, patch: 0 };
+  }
+
+  return undefined;
+}
+
+/**
+ * Parses the version stored in an application bundle or executable, where a
+ * dotted version is always major.release.patch: "20.4.0" is 20 R4, "20.0.2"
+ * is 20.2, and a fourth component (build number) is ignored. Other strings
+ * are parsed as display strings.
+ */
+export function parseBundleVersion(text: string): FourDVersion | undefined {
+  const dotted = /^v?(\d{2})\.(\d+)(?:\.(\d+))?(?:\.\d+)?(?:\s|$)/i.exec(text.trim());
+  if (dotted) {
+    return { major: Number(dotted[1]), release: Number(dotted[2]), patch: Number(dotted[3] ?? 0) };
+  }
+  return parseVersionString(text);
+}
+
+export function formatVersion(version: FourDVersion): string {
+  if (version.release > 0) {
+    return `${version.major} R${version.release}${version.patch > 0 ? `.${version.patch}` : ''}`;
+  }
+  return version.patch > 0 ? `${version.major}.${version.patch}` : `${version.major}`;
+}
+
+/**
+ * Compares the feature level of two versions (bug fix numbers are ignored:
+ * 20.2 can open what 20.0 saved). Negative if a is older than b.
+ */
+export function compareFeatureLevel(a: FourDVersion, b: FourDVersion): number {
+  return a.major - b.major || a.release - b.release;
+}
+
+/**
+ * Reads the version a project was last saved with, from the
+ * `compatibilityVersion` field of its .4DProject file.
+ */
+export async function readProjectVersion(projectFilePath: string): Promise<FourDVersion | undefined> {
+  try {
+    const content = JSON.parse(await fs.promises.readFile(projectFilePath, 'utf8'));
+    const compatibility = content?.compatibilityVersion;
+    if (typeof compatibility === 'number' || typeof compatibility === 'string') {
+      return parseVersionCode(compatibility);
+    }
+    return undefined;
+  } catch {
+    return undefined;
+  }
+}
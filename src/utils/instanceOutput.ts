@@ -0,0 +1,128 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+  Running4DInstance,
+  addInstanceListener,
+  formatDuration
+} from './processManager';
+
+// One output channel per instance, by instance id. The channels of exited
+// instances are kept until the same project is launched again with the same application
+const channels = new Map<number, { channel: vscode.OutputChannel; name: string; exited: boolean }>();
+
+// Last stderr line of each instance, until its end is received
+const pendingStderr = new Map<number, string>();
+
+// Resolves the display name of an application path, set on registration
+let appNameResolver: ((appPath: string) => string) | null = null;
+
+/**
+ * Streams the output of launched 4D instances into dedicated output channels
+ * and reports their termination.
+ *
+ * @param getAppName - Resolves the display name of an application path
+ */
+export function registerInstanceOutput(
+  context: vscode.ExtensionContext,
+  getAppName: (appPath: string) => string
+): void {
+  appNameResolver = getAppName;
+
+  const listener = addInstanceListener({
+    onStart: (instance) => {
+      disposeExitedChannels(getChannelName(instance));
+      const channel = getChannel(instance);
+      channel.appendLine(`=== Instance #${instance.id} started (PID ${instance.pid}) ===`);
+      channel.appendLine(`Timestamp: ${new Date(instance.startTime).toISOString()}`);
+      channel.appendLine(`Options: ${JSON.stringify(instance.options)}`);
+    },
+
+    onOutput: (instance, stream, text) => {
+      const channel = getChannel(instance);
+      if (stream === 'stderr') {
+        const lines = ((pendingStderr.get(instance.id) ?? '') + text).split(/\r?\n/);
+        pendingStderr.set(instance.id, lines.pop() ?? '');
+        lines.filter(Boolean).forEach((line) => {
+          channel.appendLine(`[stderr] ${line}`);
+        });
+      } else {
+        channel.append(text);
+      }
+    },
+
+    onExit: async (instance, code, signal) => {
+      const channel = getChannel(instance);
+      const pending = pendingStderr.get(instance.id);
+      pendingStderr.delete(instance.id);
+      if (pending) {
+        channel.appendLine(`[stderr] ${pending}`);
+      }
+      const entry = channels.get(instance.id);
+      if (entry) {
+        entry.exited = true;
+      }
+
+      const duration = formatDuration(Date.now() - instance.startTime);
+      const status = signal ? `was terminated by ${signal}` : `exited with code ${code}`;
+      channel.appendLine(`=== Instance #${instance.id} ${status} after ${duration} ===`);
+
+      const abnormal =
+        !instance.stopRequested && !instance.startupMonitored && (signal !== null || code !== 0);
+      if (!abnormal) {
+        return;
+      }
+
+      const openLogs = 'Open Logs';
+      const choice = await vscode.window.showWarningMessage(
+        `${getAppName(instance.appPath)} (${path.basename(instance.projectPath)}) ${status} after ${duration}`,
+        openLogs
+      );
+      if (choice === openLogs) {
+        channel.show();
+      }
+    },
+  });
+
+  context.subscriptions.push(listener);
+  context.subscriptions.push({
+    dispose: () => {
+      channels.forEach((entry) => entry.channel.dispose());
+      channels.clear();
+      pendingStderr.clear();
+    },
+  });
+}
+
+/**
+ * Shows the output channel of an instance.
+ */
+export function showInstanceOutput(instance: Running4DInstance): void {
+  getChannel(instance).show();
+}
+
+function getChannel(instance: Running4DInstance): vscode.OutputChannel {
+  let entry = channels.get(instance.id);
+  if (!entry) {
+    const name = getChannelName(instance);
+    entry = { channel: vscode.window.createOutputChannel(`${name} #${instance.id}`), name, exited: false };
+    channels.set(instance.id, entry);
+  }
+  return entry.channel;
+}
+
+function getChannelName(instance: Running4DInstance): string {
+  const appName = appNameResolver?.(instance.appPath) ?? path.basename(instance.appPath);
+  return `4D: ${appName} - ${path.basename(instance.projectPath)}`;
+}
+
+/**
+ * Disposes the channels of the exited instances of an application/project pair.
+ */
+function disposeExitedChannels(name: string): void {
+  for (const [id, entry] of channels) {
+    if (entry.exited && entry.name === name) {
+      entry.channel.dispose();
+      channels.delete(id);
+    }
+  }
+}
@@ -0,0 +1,289 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { open4DProject, extractLaunchOptions, LaunchOptions } from './launcher';
+import {
+  FourDApplication,
+  getApplications,
+  findApplicationByName,
+  getApplicationKind,
+  filterApplicationsByKind,
+  APPLICATION_KIND_ICONS,
+  APPLICATION_KIND_LABELS,
+  PROJECT_KINDS
+} from './applications';
+import {
+  Running4DInstance,
+  addInstanceListener,
+  stopInstance,
+  formatDuration
+} from './processManager';
+import { resolveProjectPath, resolveOptionPaths } from './workspaceProjects';
+import { getApplicationMetadata, formatVersionLabel } from './appMetadata';
+
+export const FOURD_DEBUG_TYPE = '4d';
+
+/**
+ * A `4d` configuration in launch.json. Mirrors LaunchOptions.
+ */
+export interface FourDLaunchConfiguration extends vscode.DebugConfiguration, LaunchOptions {
+  /** Name of the 4D application, as configured in `4d-helper.applications` */
+  application?: string;
+  /** Path to the .4DProject file, absolute or relative to the workspace folder */
+  project?: string;
+}
+
+/**
+ * Provides and completes `4d` launch configurations, so that F5 opens the
+ * workspace project even without a launch.json.
+ */
+export class FourDConfigurationProvider implements vscode.DebugConfigurationProvider {
+  provideDebugConfigurations(): vscode.DebugConfiguration[] {
+    const applications = getApplications();
+    const names = applications.length > 0 ? applications.map((app) => app.name) : ['4D'];
+
+    return names.map((name) => ({
+      type: FOURD_DEBUG_TYPE,
+      request: 'launch',
+      name: `Open Project with ${name}`,
+      application: name,
+      project: '${workspaceFolder}',
+      openingMode: 'interpreted',
+    }));
+  }
+
+  async resolveDebugConfiguration(
+    _folder: vscode.WorkspaceFolder | undefined,
+    config: vscode.DebugConfiguration
+  ): Promise<vscode.DebugConfiguration | undefined> {
+    // F5 without launch.json: create a configuration on the fly
+    if (!config.type && !config.request && !config.name) {
+      config.type = FOURD_DEBUG_TYPE;
+      config.request = 'launch';
+      config.name = 'Open 4D Project';
+    }
+
+    if (!config.application) {
+      const app = await pickApplication();
+      if (!app) {
+        return undefined; // Abort launch
+      }
+      config.application = app.name;
+    }
+
+    return config;
+  }
+}
+
+/**
+ * Creates the inline debug adapter handling `4d` sessions.
+ */
+export class FourDDebugAdapterFactory implements vscode.DebugAdapterDescriptorFactory {
+  createDebugAdapterDescriptor(
+    session: vscode.DebugSession
+  ): vscode.ProviderResult<vscode.DebugAdapterDescriptor> {
+    return new vscode.DebugAdapterInlineImplementation(new FourDDebugAdapter(session));
+  }
+}
+
+async function pickApplication(): Promise<FourDApplication | undefined> {
+  const applications = await filterApplicationsByKind(getApplications(), PROJECT_KINDS);
+
+  if (applications.length === 0) {
+    vscode.window.showErrorMessage(
+      'No 4D or tool4d applications configured. Please add applications in settings.'
+    );
+    return undefined;
+  }
+
+  if (applications.length === 1) {
+    return applications[0];
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    Promise.all(applications.map(async (app) => {
+      const kind = await getApplicationKind(app);
+      return {
+        label: `${APPLICATION_KIND_ICONS[kind]} ${app.name}`,
+        description: [APPLICATION_KIND_LABELS[kind], formatVersionLabel(await getApplicationMetadata(app.path))]
+          .filter(Boolean)
+          .join(' · '),
+        detail: app.path,
+        app,
+      };
+    })),
+    { placeHolder: 'Select a 4D application', title: 'Open 4D Project' }
+  );
+  return selected?.app;
+}
+
+/** Minimal subset of the Debug Adapter Protocol messages we handle */
+interface DapRequest {
+  seq: number;
+  type: 'request';
+  command: string;
+  arguments?: { [key: string]: unknown };
+}
+
+/**
+ * Debug adapter that launches the project through open4DProject and keeps
+ * the session alive while the 4D instance runs. 4D code cannot be debugged
+ * from VS Code, so only the launch/terminate part of the protocol is handled.
+ */
+class FourDDebugAdapter implements vscode.DebugAdapter {
+  private readonly messageEmitter = new vscode.EventEmitter<vscode.DebugProtocolMessage>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private instance: Running4DInstance | null = null;
+  private seq = 1;
+
+  readonly onDidSendMessage = this.messageEmitter.event;
+
+  constructor(private readonly session: vscode.DebugSession) {}
+
+  handleMessage(message: vscode.DebugProtocolMessage): void {
+    const request = message as DapRequest;
+    if (request.type !== 'request') {
+      return;
+    }
+
+    switch (request.command) {
+      case 'initialize':
+        this.respond(request, {});
+        this.sendEvent('initialized');
+        break;
+
+      case 'launch':
+        this.launch(request);
+        break;
+
+      case 'threads':
+        this.respond(request, { threads: [] });
+        break;
+
+      case 'disconnect':
+      case 'terminate':
+        this.terminate(request);
+        break;
+
+      default:
+        this.respond(request);
+        break;
+    }
+  }
+
+  dispose(): void {
+    this.disposables.forEach((d) => d.dispose());
+  }
+
+  private async launch(request: DapRequest): Promise<void> {
+    const config = this.session.configuration as FourDLaunchConfiguration;
+
+    try {
+      const app = findApplicationByName(config.application ?? '');
+      if (!app) {
+        throw new Error(`4D application "${config.application}" is not configured`);
+      }
+
+      const folder = this.session.workspaceFolder ?? vscode.workspace.workspaceFolders?.[0];
+      if (!folder) {
+        throw new Error('No workspace folder open');
+      }
+
+      const projectFile = await resolveLaunchProject(config.project, folder);
+      const options = resolveOptionPaths(extractLaunchOptions(config), folder);
+
+      this.output(`Opening ${projectFile} with ${app.name}\n`);
+      this.instance = await open4DProject(app.path, projectFile, options);
+      this.respond(request);
+
+      if (!this.instance) {
+        // Nothing to track: end the session once 4D is launched
+        this.sendEvent('terminated');
+        return;
+      }
+
+      const instanceId = this.instance.id;
+      this.disposables.push(
+        addInstanceListener({
+          onOutput: (running, stream, text) => {
+            if (running.id === instanceId) {
+              this.output(text, stream);
+            }
+          },
+          onExit: (running, code, signal) => {
+            if (running.id !== instanceId) {
+              return;
+            }
+            const duration = formatDuration(Date.now() - running.startTime);
+            this.output(
+              signal
+                ? `4D was terminated by ${signal} after ${duration}\n`
+                : `4D exited with code ${code} after ${duration}\n`
+            );
+            this.instance = null;
+            this.sendEvent('exited', { exitCode: code ?? 1 });
+            this.sendEvent('terminated');
+          },
+        })
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.respond(request, undefined, message);
+    }
+  }
+
+  private async terminate(request: DapRequest): Promise<void> {
+    if (this.instance) {
+      try {
+        await stopInstance(this.instance);
+      } catch {
+        // The process may already be gone
+      }
+      this.instance = null;
+    }
+    this.respond(request);
+  }
+
+  private output(text: string, category: 'stdout' | 'stderr' | 'console' = 'console'): void {
+    this.sendEvent('output', { category, output: text });
+  }
+
+  private respond(request: DapRequest, body?: object, errorMessage?: string): void {
+    this.messageEmitter.fire({
+      seq: this.seq++,
+      type: 'response',
+      request_seq: request.seq,
+      command: request.command,
+      success: !errorMessage,
+      message: errorMessage,
+      body,
+    } as vscode.DebugProtocolMessage);
+  }
+
+  private sendEvent(event: string, body?: object): void {
+    this.messageEmitter.fire({
+      seq: this.seq++,
+      type: 'event',
+      event,
+      body,
+    } as vscode.DebugProtocolMessage);
+  }
+}
+
+/**
+ * Resolves the project of a launch configuration. `${workspaceFolder}` alone
+ * (a folder, not a file) means "the project of the folder".
+ */
+async function resolveLaunchProject(
+  project: string | undefined,
+  folder: vscode.WorkspaceFolder
+): Promise<string> {
+  if (project && path.extname(project) === '') {
+    const folderPath = path.resolve(folder.uri.fsPath, project);
+    const projectFolder =
+      folderPath === folder.uri.fsPath
+        ? folder
+        : { uri: vscode.Uri.file(folderPath), name: path.basename(folderPath), index: folder.index };
+    return resolveProjectPath(undefined, projectFolder);
+  }
+  return resolveProjectPath(project, folder);
+}
@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import { extractLaunchOptions, LaunchOptions } from './launcher';
+
+/**
+ * A named combination of 4D application and launch options.
+ */
+export interface LaunchProfile {
+  /** Display name of the profile */
+  name: string;
+  /** Name of the 4D application, as configured in `4d-helper.applications` */
+  application: string;
+  /** Options passed to 4D */
+  options: LaunchOptions;
+}
+
+/**
+ * A profile together with the settings level it is stored in.
+ */
+export interface ScopedLaunchProfile extends LaunchProfile {
+  target: vscode.ConfigurationTarget;
+}
+
+/**
+ * Get all launch profiles (workspace profiles first, then user profiles).
+ * Profiles without a name or application are skipped, and their options are
+ * limited to valid launch options.
+ */
+export function getLaunchProfiles(): ScopedLaunchProfile[] {
+  const config = vscode.workspace.getConfiguration('4d-helper');
+  const inspected = config.inspect<unknown>('launchProfiles');
+  const workspaceProfiles = readProfiles(inspected?.workspaceValue);
+  const userProfiles = readProfiles(inspected?.globalValue);
+
+  return [
+    ...workspaceProfiles.map((p) => ({ ...p, target: vscode.ConfigurationTarget.Workspace })),
+    ...userProfiles.map((p) => ({ ...p, target: vscode.ConfigurationTarget.Global })),
+  ];
+}
+
+/**
+ * Save a profile, replacing any profile with the same name at that level.
+ *
+ * @param previousName - Name of the profile being edited, if it was renamed
+ */
+export async function saveLaunchProfile(
+  profile: LaunchProfile,
+  target: vscode.ConfigurationTarget,
+  previousName?: string
+): Promise<void> {
+  const profiles = getProfilesAt(target).filter((p) => {
+    const name = asObject(p).name;
+    return name !== profile.name && name !== previousName;
+  });
+  profiles.push({
+    name: profile.name,
+    application: profile.application,
+    options: profile.options,
+  });
+
+  const config = vscode.workspace.getConfiguration('4d-helper');
+  await config.update('launchProfiles', profiles, target);
+}
+
+/**
+ * Remove a profile from the given settings level.
+ */
+export async function removeLaunchProfile(
+  name: string,
+  target: vscode.ConfigurationTarget
+): Promise<void> {
+  const profiles = getProfilesAt(target);
+  const filtered = profiles.filter((p) => asObject(p).name !== name);
+
+  if (filtered.length === profiles.length) {
+    throw new Error(`Launch profile "${name}" not found`);
+  }
+
+  const config = vscode.workspace.getConfiguration('4d-helper');
+  await config.update('launchProfiles', filtered, target);
+}
+
+/**
+ * Resolve `${workspaceFolder}` in the paths of profile options, so profiles
+ * shared in workspace settings do not need absolute paths.
+ */
+export function resolveProfileOptions(
+  options: LaunchOptions,
+  workspaceFolder: vscode.WorkspaceFolder
+): LaunchOptions {
+  const resolved = { ...options };
+  if (resolved.dataFile) {
+    resolved.dataFile = resolved.dataFile.replace(
+      /\$\{workspaceFolder\}/g,
+      workspaceFolder.uri.fsPath
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Returns the profiles stored at a settings level as they are, so that saving
+ * or removing one profile leaves the others untouched.
+ */
+function getProfilesAt(target: vscode.ConfigurationTarget): unknown[] {
+  const config = vscode.workspace.getConfiguration('4d-helper');
+  const inspected = config.inspect<unknown>('launchProfiles');
+  const profiles =
+    target === vscode.ConfigurationTarget.Global
+      ? inspected?.globalValue
+      : inspected?.workspaceValue;
+  return Array.isArray(profiles) ? [...profiles] : [];
+}
+
+function readProfiles(value: unknown): LaunchProfile[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const profiles: LaunchProfile[] = [];
+  for (const entry of value) {
+    const { name, application, options } = asObject(entry);
+    if (typeof name === 'string' && name && typeof application === 'string' && application) {
+      profiles.push({ name, application, options: extractLaunchOptions(asObject(options)) });
+    }
+  }
+  return profiles;
+}
+
+function asObject(value: unknown): { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as { [key: string]: unknown })
+    : {};
+}
@@ -0,0 +1,142 @@
+import { Running4DInstance, addInstanceListener, isProcessAlive } from './processManager';
+import { LocalServerOptions, discoverLocalServer } from './localServer';
+import { Server4DDiscoveryInfo } from './serverScanner';
+
+/** Delay between two readiness checks */
+const POLL_INTERVAL_MS = 500;
+
+export type ReadinessStatus = 'started' | 'failed' | 'timedOut' | 'cancelled';
+
+export interface ReadinessResult {
+  status: ReadinessStatus;
+  /** Explanation for the user */
+  message: string;
+  /** Discovery answer of a server launch */
+  server?: Server4DDiscoveryInfo;
+}
+
+export interface ReadinessChecks {
+  /** Time the process must stay alive before it counts as started */
+  gracePeriodMs: number;
+  /** Time to wait for the marker or the server before giving up */
+  timeoutMs: number;
+  /** Output line (stdout or stderr) telling that a headless run is ready */
+  outputMarker?: RegExp;
+  /** Port (and publication name) a server launch must answer on */
+  server?: LocalServerOptions;
+  isCancelled?: () => boolean;
+}
+
+/**
+ * Watches a launched instance until it is ready: alive after the grace
+ * period, then, when requested, answering the discovery on its server port
+ * and having printed the output marker.
+ * While watched, the instance is flagged so that an exit during startup is
+ * reported by the caller rather than as an abnormal exit.
+ */
+export async function waitForReadiness(
+  instance: Running4DInstance,
+  checks: ReadinessChecks
+): Promise<ReadinessResult> {
+  const start = Date.now();
+  let exit: { code: number | null; signal: string | null } | undefined;
+  let markerSeen = !checks.outputMarker;
+  let server: Server4DDiscoveryInfo | undefined;
+  let lastServerAnswer: Server4DDiscoveryInfo | undefined;
+
+  // Incomplete last line of each stream, since chunks may split a line
+  const pendingLines = { stdout: '', stderr: '' };
+
+  const listener = addInstanceListener({
+    onOutput: (running, stream, text) => {
+      const marker = checks.outputMarker;
+      if (running.id !== instance.id || !marker || markerSeen) {
+        return;
+      }
+      const lines = (pendingLines[stream] + text).split(/\r?\n/);
+      pendingLines[stream] = lines.pop() ?? '';
+      if (lines.some((line) => marker.test(line))) {
+        markerSeen = true;
+      }
+    },
+    onExit: (running, code, signal) => {
+      if (running.id === instance.id) {
+        exit = { code, signal };
+      }
+    },
+  });
+
+  instance.startupMonitored = true;
+  let result: ReadinessResult | undefined;
+
+  try {
+    for (;;) {
+      if (exit || !isProcessAlive(instance.pid)) {
+        const how = exit?.signal
+          ? `was terminated by ${exit.signal}`
+          : exit
+            ? `exited with code ${exit.code}`
+            : 'exited';
+        result = { status: 'failed', message: `4D ${how} during startup` };
+        return result;
+      }
+
+      if (checks.isCancelled?.()) {
+        return { status: 'cancelled', message: 'Stopped waiting for 4D to start' };
+      }
+
+      const elapsed = Date.now() - start;
+
+      if (checks.server && !server) {
+        const info = await discoverLocalServer(checks.server.port);
+        if (info && (!checks.server.publicationName || info.database === checks.server.publicationName)) {
+          server = info;
+        } else if (info) {
+          lastServerAnswer = info;
+        }
+      }
+
+      if (elapsed >= checks.gracePeriodMs && markerSeen && (!checks.server || server)) {
+        return { status: 'started', message: describeReadiness(checks, server), server };
+      }
+
+      if (elapsed >= Math.max(checks.timeoutMs, checks.gracePeriodMs)) {
+        return { status: 'timedOut', message: describeTimeout(checks, markerSeen, lastServerAnswer) };
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+  } finally {
+    listener.dispose();
+    // Exits after startup are abnormal exits again
+    if (result?.status !== 'failed') {
+      instance.startupMonitored = false;
+    }
+  }
+}
+
+function describeReadiness(checks: ReadinessChecks, server?: Server4DDiscoveryInfo): string {
+  if (server) {
+    return `4D Server publishes "${server.database}" on port ${checks.server?.port}`;
+  }
+  if (checks.outputMarker) {
+    return '4D reported that it is ready';
+  }
+  return `4D is running after ${Math.round(checks.gracePeriodMs / 1000)}s`;
+}
+
+function describeTimeout(
+  checks: ReadinessChecks,
+  markerSeen: boolean,
+  lastServerAnswer?: Server4DDiscoveryInfo
+): string {
+  const seconds = Math.round(checks.timeoutMs / 1000);
+
+  if (checks.server && lastServerAnswer) {
+    return `No server published "${checks.server.publicationName}" on port ${checks.server.port} after ${seconds}s (the server there publishes "${lastServerAnswer.database}")`;
+  }
+  if (checks.server && markerSeen) {
+    return `4D Server did not answer on port ${checks.server.port} after ${seconds}s`;
+  }
+  return `4D did not print the ready marker after ${seconds}s`;
+}
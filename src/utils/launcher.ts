@@ -1,5 +1,16 @@
-import { exec } from 'child_process';
+import { ChildProcess, spawn } from 'child_process';
 import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StringDecoder } from 'string_decoder';
+import {
+  Running4DInstance,
+  registerInstance,
+  reportInstanceOutput,
+  reportInstanceExit,
+} from './processManager';
+import { createSnapshot, resolveLaunchDataFile } from './dataSnapshots';
+import { parsePlist, PlistValue } from './plist';
 
 /**
  * Launch options for opening a 4D project.
@@ -21,6 +32,34 @@ export interface LaunchOptions {
   userParam?: string;
   /** Specific startup method to run */
   startupMethod?: string;
+  /** Snapshot the data file before launching */
+  snapshotData?: boolean;
+}
+
+/**
+ * Picks the launch options out of a larger object, such as a task definition
+ * or a launch configuration, ignoring values of the wrong type.
+ */
+export function extractLaunchOptions(source: { [key: string]: unknown }): LaunchOptions {
+  const options: LaunchOptions = {};
+
+  if (source.openingMode === 'interpreted' || source.openingMode === 'compiled') {
+    options.openingMode = source.openingMode;
+  }
+
+  for (const key of ['dataFile', 'userParam', 'startupMethod'] as const) {
+    if (typeof source[key] === 'string' && source[key]) {
+      options[key] = source[key] as string;
+    }
+  }
+
+  for (const key of ['createData', 'dataless', 'headless', 'skipOnStartup', 'snapshotData'] as const) {
+    if (source[key] === true) {
+      options[key] = true;
+    }
+  }
+
+  return options;
 }
 
 // Output channel for logging
@@ -30,6 +69,16 @@ export function setOutputChannel(channel: { appendLine: (msg: string) => void })
   outputChannel = channel;
 }
 
+// Folder where the output of launched instances is written
+let logsDirectory = path.join(os.tmpdir(), '4d-helper-logs');
+
+export function setLogsDirectory(directory: string) {
+  logsDirectory = directory;
+}
+
+/** How often the output files of running instances are read, in ms */
+const OUTPUT_POLL_INTERVAL = 250;
+
 function log(message: string) {
   console.log(`[4D Helper] ${message}`);
   outputChannel?.appendLine(`[4D Helper] ${message}`);
@@ -37,13 +86,16 @@ function log(message: string) {
 
 /**
  * Opens a 4D project with the specified 4D application and options.
- * Works on both macOS and Windows.
+ * Works on macOS and Windows, and on Linux through tool4d.
+ *
+ * @returns The launched instance as recorded in the process registry, or null
+ *          if its process could not be identified
  */
 export async function open4DProject(
   appPath: string,
   projectPath: string,
   options: LaunchOptions = {}
-): Promise<void> {
+): Promise<Running4DInstance | null> {
   log(`=== Opening 4D Project ===`);
   log(`App: ${appPath}`);
   log(`Project: ${projectPath}`);
@@ -68,46 +120,43 @@ export async function open4DProject(
     }
   }
 
+  if (options.snapshotData) {
+    const dataFile = await resolveLaunchDataFile(projectPath, options);
+    if (dataFile) {
+      const snapshot = await createSnapshot(dataFile, 'Before launch');
+      log(`Data snapshot: ${snapshot.directory}`);
+    } else {
+      log(`Data snapshot: skipped, no existing data file`);
+    }
+  }
+
   const platform = process.platform;
   log(`Platform: ${platform}`);
 
   if (platform === 'darwin') {
-    await openOnMac(appPath, projectPath, options);
+    return openOnMac(appPath, projectPath, options);
   } else if (platform === 'win32') {
-    await openOnWindows(appPath, projectPath, options);
+    return openOnWindows(appPath, projectPath, options);
+  } else if (platform === 'linux') {
+    return openOnLinux(appPath, projectPath, options);
   } else {
     throw new Error(`Unsupported platform: ${platform}`);
   }
 }
 
 /**
- * Checks if any options require CLI arguments.
- */
-function hasCliOptions(options: LaunchOptions): boolean {
-  return !!(
-    options.openingMode ||
-    options.dataFile ||
-    options.createData ||
-    options.dataless ||
-    options.headless ||
-    options.skipOnStartup ||
-    options.userParam ||
-    options.startupMethod
-  );
-}
-
-/**
- * Builds CLI arguments string from launch options.
+ * Builds the argument vector passed to 4D for a project and launch options.
+ * Each value is a separate element, so no shell quoting is involved.
  */
-function buildCliArgsString(options: LaunchOptions): string {
-  const args: string[] = [];
+export function buildCliArgs(projectPath: string, options: LaunchOptions): string[] {
+  const args: string[] = ['--project', projectPath];
 
   if (options.openingMode) {
-    args.push(`--opening-mode ${options.openingMode}`);
+    args.push('--opening-mode', options.openingMode);
   }
 
   if (options.dataFile) {
-    args.push(`--data "${options.dataFile}"`);
+    args.push('--data', options.dataFile);
   }
 
   if (options.createData) {
@@ -127,80 +176,264 @@ function buildCliArgsString(options: LaunchOptions): string {
   }
 
   if (options.userParam) {
-    args.push(`--user-param "${options.userParam}"`);
+    args.push('--user-param', options.userParam);
   }
 
   if (options.startupMethod) {
-    args.push(`--startup-method "${options.startupMethod}"`);
+    args.push('--startup-method', options.startupMethod);
+  }
+
+  return args;
+}
+
+/**
+ * Formats an executable and its arguments as a command line that could be
+ * pasted in a terminal of the given platform. Only used for display: the
+ * launcher never goes through a shell.
+ */
+export function formatCommandLine(
+  executable: string,
+  args: string[],
+  platform: NodeJS.Platform = process.platform
+): string {
+  const quote = platform === 'win32' ? quoteWindowsArg : quotePosixArg;
+  return [executable, ...args].map(quote).join(' ');
+}
+
+/**
+ * Quotes an argument for a POSIX shell (single quotes, no expansion).
+ */
+function quotePosixArg(arg: string): string {
+  if (/^[\w@%+=:,./-]+$/.test(arg)) {
+    return arg;
   }
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
 
-  return args.join(' ');
+/**
+ * Quotes an argument following the MSVCRT command line parsing rules.
+ */
+function quoteWindowsArg(arg: string): string {
+  if (arg.length > 0 && !/[\s"]/.test(arg)) {
+    return arg;
+  }
+  // Backslashes are literal unless they precede a double quote
+  const escaped = arg
+    .replace(/(\\*)"/g, '$1$1\\"')
+    .replace(/(\\+)$/, '$1$1');
+  return `"${escaped}"`;
 }
 
+/**
+ * Launches the executable inside the application bundle rather than going
+ * through `open -a <app> -n --args <argv>`, so that we own the process: its
+ * PID, output and exit code. `open` hands the launch over to launchd and
+ * exits, leaving nothing to stop, follow or wait for.
+ */
 async function openOnMac(
   appPath: string,
   projectPath: string,
   options: LaunchOptions
-): Promise<void> {
-  return new Promise((resolve, reject) => {
-    let command: string;
+): Promise<Running4DInstance | null> {
+  const executable = await resolveMacExecutable(appPath);
+  return launchDetached(executable, appPath, projectPath, options);
+}
 
-    if (hasCliOptions(options)) {
-      // With CLI options: use --args to pass arguments to 4D
-      const cliArgs = buildCliArgsString(options);
-      command = `open -a "${appPath}" --args --project "${projectPath}" ${cliArgs}`;
-    } else {
-      // Simple case: just open the project with the app (ORIGINAL WORKING VERSION)
-      command = `open -a "${appPath}" "${projectPath}"`;
+async function openOnWindows(
+  appPath: string,
+  projectPath: string,
+  options: LaunchOptions
+): Promise<Running4DInstance | null> {
+  return launchDetached(appPath, appPath, projectPath, options);
+}
+
+/**
+ * Launches tool4d on Linux. tool4d is always headless, so its output is the
+ * only feedback we get from the project.
+ */
+async function openOnLinux(
+  appPath: string,
+  projectPath: string,
+  options: LaunchOptions
+): Promise<Running4DInstance | null> {
+  return launchDetached(appPath, appPath, projectPath, options);
+}
+
+/**
+ * Spawns the 4D process detached from the extension host, registers it and
+ * streams its output to the instance listeners. Resolves as soon as the
+ * process has started; its termination is reported through the registry.
+ *
+ * The output goes to files rather than pipes: 4D writes to them whether or
+ * not the extension host is still there, so it does not get EPIPE or SIGPIPE
+ * after VS Code is reloaded or closed. The files are followed while the
+ * process runs.
+ */
+async function launchDetached(
+  executable: string,
+  appPath: string,
+  projectPath: string,
+  options: LaunchOptions
+): Promise<Running4DInstance | null> {
+  const args = buildCliArgs(projectPath, options);
+  log(`Executable: ${executable}`);
+  log(`Arguments: ${JSON.stringify(args)}`);
+  log(`Command: ${formatCommandLine(executable, args)}`);
+
+  await fs.promises.mkdir(logsDirectory, { recursive: true });
+  const outputDirectory = await fs.promises.mkdtemp(path.join(logsDirectory, 'instance-'));
+  const stdoutFile = path.join(outputDirectory, 'stdout.log');
+  const stderrFile = path.join(outputDirectory, 'stderr.log');
+  log(`Output: ${outputDirectory}`);
+
+  const stdout = await fs.promises.open(stdoutFile, 'w');
+  const stderr = await fs.promises.open(stderrFile, 'w');
+
+  return new Promise((resolve, reject) => {
+    let child: ChildProcess;
+    try {
+      child = spawn(executable, args, {
+        detached: true,
+        windowsHide: true,
+        stdio: ['ignore', stdout.fd, stderr.fd],
+      });
+    } finally {
+      // The child has its own copies of the descriptors
+      stdout.close().catch(() => undefined);
+      stderr.close().catch(() => undefined);
     }
 
-    log(`Command: ${command}`);
+    let instance: Running4DInstance | null = null;
+    let followers: Promise<FileFollower[]> | null = null;
 
-    exec(command, (error, stdout, stderr) => {
-      if (error) {
-        log(`ERROR: ${error.message}`);
-        if (stderr) {
-          log(`STDERR: ${stderr}`);
-        }
-        reject(new Error(`Failed to launch 4D: ${error.message}`));
+    child.on('spawn', () => {
+      if (child.pid === undefined) {
+        resolve(null);
         return;
       }
 
-      if (stdout) {
-        log(`STDOUT: ${stdout}`);
+      const registered = registerInstance(child.pid, appPath, projectPath, options);
+      instance = registered;
+      log(`Command executed successfully`);
+      log(`Registered instance #${registered.id} (PID ${child.pid})`);
+
+      followers = Promise.all([
+        followFile(stdoutFile, (text) => reportInstanceOutput(registered, 'stdout', text)),
+        followFile(stderrFile, (text) => reportInstanceOutput(registered, 'stderr', text)),
+      ]);
+
+      // Do not keep the extension host alive for the sake of 4D
+      child.unref();
+      resolve(registered);
+    });
+
+    child.on('error', (error) => {
+      log(`ERROR: ${error.message}`);
+      if (!instance) {
+        reject(new Error(`Failed to launch 4D: ${error.message}`));
       }
-      if (stderr) {
-        log(`STDERR: ${stderr}`);
+    });
+
+    child.on('close', (code, signal) => {
+      const exited = instance;
+      if (!exited) {
+        return;
       }
+      log(`Instance #${exited.id} exited (code: ${code}, signal: ${signal})`);
 
-      log(`Command executed successfully`);
-      resolve();
+      // Report the last output before the exit
+      (followers ?? Promise.resolve([]))
+        .then((list) => Promise.all(list.map((follower) => follower.stop())))
+        .catch(() => undefined)
+        .finally(() => reportInstanceExit(exited, code, signal));
     });
   });
 }
 
-async function openOnWindows(
-  appPath: string,
-  projectPath: string,
-  options: LaunchOptions
-): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const cliArgs = buildCliArgsString(options);
-    const command = `"${appPath}" --project "${projectPath}" ${cliArgs}`;
-
-    log(`Command: ${command}`);
+interface FileFollower {
+  /** Reads the rest of the file and stops following it */
+  stop(): Promise<void>;
+}
 
-    exec(command, (error, stdout, stderr) => {
-      if (error) {
-        log(`ERROR: ${error.message}`);
-        reject(new Error(`Failed to launch 4D: ${error.message}`));
+/**
+ * Passes the text appended to a file to `onText`, reading it periodically
+ * from where the previous read ended.
+ */
+async function followFile(file: string, onText: (text: string) => void): Promise<FileFollower> {
+  const handle = await fs.promises.open(file, 'r');
+  const decoder = new StringDecoder('utf8');
+  const buffer = Buffer.alloc(64 * 1024);
+  let position = 0;
+  let reading = Promise.resolve();
+
+  const readAppended = async () => {
+    for (;;) {
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+      if (bytesRead === 0) {
         return;
       }
+      position += bytesRead;
+      const text = decoder.write(buffer.subarray(0, bytesRead));
+      if (text) {
+        onText(text);
+      }
+    }
+  };
+
+  // Reads are chained so that the text is passed on in order
+  const poll = () => {
+    reading = reading.then(readAppended).catch(() => undefined);
+    return reading;
+  };
+
+  const timer = setInterval(poll, OUTPUT_POLL_INTERVAL);
+  timer.unref();
+
+  return {
+    stop: async () => {
+      clearInterval(timer);
+      await poll();
+      const rest = decoder.end();
+      if (rest) {
+        onText(rest);
+      }
+      await handle.close();
+    },
+  };
+}
 
-      log(`Command executed successfully`);
-      resolve();
-    });
-  });
+/**
+ * Returns the path of the executable inside a macOS application bundle, as
+ * named by `CFBundleExecutable` in its Info.plist. A path that is not a
+ * folder already points to an executable.
+ */
+async function resolveMacExecutable(appPath: string): Promise<string> {
+  if (!(await fs.promises.stat(appPath)).isDirectory()) {
+    return appPath;
+  }
+
+  const infoPlist = path.join(appPath, 'Contents', 'Info.plist');
+  let plist: PlistValue;
+  try {
+    plist = parsePlist(await fs.promises.readFile(infoPlist));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Cannot read the application Info.plist (${infoPlist}): ${message}`);
+  }
+
+  const name =
+    plist && typeof plist === 'object' && !Array.isArray(plist) && !(plist instanceof Date) && !Buffer.isBuffer(plist)
+      ? plist.CFBundleExecutable
+      : undefined;
+  if (typeof name !== 'string' || !name) {
+    throw new Error(`${infoPlist} does not name the application executable (CFBundleExecutable)`);
+  }
+
+  const executable = path.join(appPath, 'Contents', 'MacOS', name);
+  if (!(await fileExists(executable))) {
+    throw new Error(`Application executable not found: ${executable}`);
+  }
+  return executable;
 }
 
 async function fileExists(filePath: string): Promise<boolean> {
@@ -0,0 +1,92 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { discover4DServer, Server4DDiscoveryInfo } from './serverScanner';
+
+/** Address used to reach servers launched on this machine */
+export const LOCAL_SERVER_HOST = '127.0.0.1';
+
+/** Application server port used by 4D Server when the settings do not set one */
+export const DEFAULT_SERVER_PORT = 19813;
+
+/**
+ * Where a locally launched 4D Server publishes. 4D Server reads these values
+ * from the project settings (Client-server page); they tell the extension
+ * what to wait for and connect to.
+ */
+export interface LocalServerOptions {
+  /** Application server port */
+  port: number;
+  /** Publication name; any name is accepted when empty */
+  publicationName?: string;
+}
+
+/**
+ * Asks for the 4D Server publishing on a local port. Returns null if no
+ * server answers.
+ */
+export function discoverLocalServer(port: number): Promise<Server4DDiscoveryInfo | null> {
+  return discover4DServer(LOCAL_SERVER_HOST, port);
+}
+
+/**
+ * Reads where 4D Server publishes a project from its settings: the user
+ * settings (`Settings/settings.4DSettings` of the package) override the
+ * structure settings (`Project/Sources/settings.4DSettings`). Values that
+ * are not set default to the project name and port 19813, as in 4D.
+ *
+ * @param projectFile - Path to the .4DProject file
+ */
+export async function readLocalServerOptions(projectFile: string): Promise<LocalServerOptions> {
+  const projectFolder = path.dirname(projectFile);
+  const settingsFiles = [
+    path.join(path.dirname(projectFolder), 'Settings', 'settings.4DSettings'),
+    path.join(projectFolder, 'Sources', 'settings.4DSettings'),
+  ];
+
+  let publicationName: string | undefined;
+  let port: number | undefined;
+  for (const file of settingsFiles) {
+    const network = await readNetworkSettings(file);
+    publicationName ??= network.publication_name || undefined;
+    const filePort = Number(network.port_number);
+    if (port === undefined && Number.isInteger(filePort) && filePort > 0 && filePort <= 65535) {
+      port = filePort;
+    }
+  }
+
+  return {
+    publicationName: publicationName ?? path.basename(projectFile, path.extname(projectFile)),
+    port: port ?? DEFAULT_SERVER_PORT,
+  };
+}
+
+/**
+ * Returns the attributes of the `<network>` element of the `<server>`
+ * settings in a .4DSettings file; empty if the file or element is missing.
+ */
+async function readNetworkSettings(settingsFile: string): Promise<{ [name: string]: string }> {
+  let xml: string;
+  try {
+    xml = await fs.promises.readFile(settingsFile, 'utf8');
+  } catch {
+    return {};
+  }
+
+  const server = /<server\b[^>]*>([\s\S]*?)<\/server>/i.exec(xml)?.[1] ?? '';
+  const network = /<network\b([^>]*)>/i.exec(server)?.[1] ?? '';
+
+  const attributes: { [name: string]: string } = {};
+  for (const [, name, value] of network.matchAll(/([\w.-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[name] = decodeEntities(value);
+  }
+  return attributes;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,211 @@
+import * as fs from 'fs';
+
+/**
+ * Version information stored in the resources of a Windows executable.
+ */
+export interface PeVersionInfo {
+  /** Numeric file version from VS_FIXEDFILEINFO, e.g. "20.4.0.294436" */
+  fixedFileVersion?: string;
+  /** Entries of the first string table (ProductName, FileVersion, CompanyName, ...) */
+  strings: { [key: string]: string };
+}
+
+/** Reads `length` bytes at `offset`; may return fewer bytes at the end of the file */
+type ByteReader = (offset: number, length: number) => Promise<Buffer>;
+
+const RT_VERSION = 16;
+const RESOURCE_DIRECTORY_INDEX = 2;
+const FIXED_FILE_INFO_SIGNATURE = 0xfeef04bd;
+/** Upper bound for the version resource, to reject corrupted sizes */
+const MAX_VERSION_RESOURCE_SIZE = 1024 * 1024;
+
+/**
+ * Reads the version resource of a PE file (.exe, .dll). Only the headers and
+ * the resource itself are read, not the whole file.
+ * Returns null if the file is not a PE file or has no version resource.
+ */
+export async function readPeVersionInfo(filePath: string): Promise<PeVersionInfo | null> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    return await readVersionInfo(async (offset, length) => {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, offset);
+      return buffer.subarray(0, bytesRead);
+    });
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Parses the version resource of a PE file loaded in memory.
+ */
+export function parsePeVersionInfo(content: Buffer): Promise<PeVersionInfo | null> {
+  return readVersionInfo(async (offset, length) => content.subarray(offset, offset + length));
+}
+
+async function readVersionInfo(read: ByteReader): Promise<PeVersionInfo | null> {
+  const readExact = async (offset: number, length: number): Promise<Buffer> => {
+    const buffer = await read(offset, length);
+    if (buffer.length < length) {
+      throw new Error('Invalid PE file: unexpected end of file');
+    }
+    return buffer;
+  };
+
+  // DOS header: "MZ", then the offset of the PE header at 0x3C
+  const dosHeader = await read(0, 64);
+  if (dosHeader.length < 64 || dosHeader.toString('latin1', 0, 2) !== 'MZ') {
+    return null;
+  }
+  const peOffset = dosHeader.readUInt32LE(0x3c);
+
+  // PE signature and COFF header
+  const coff = await read(peOffset, 24);
+  if (coff.length < 24 || coff.toString('latin1', 0, 4) !== 'PE\0\0') {
+    return null;
+  }
+  const sectionCount = coff.readUInt16LE(6);
+  const optionalHeaderSize = coff.readUInt16LE(20);
+
+  // Optional header: location of the data directories depends on PE32 / PE32+
+  const optionalHeader = await readExact(peOffset + 24, optionalHeaderSize);
+  const magic = optionalHeader.readUInt16LE(0);
+  const directoriesOffset = magic === 0x20b ? 112 : magic === 0x10b ? 96 : -1;
+  if (directoriesOffset < 0 || optionalHeaderSize < directoriesOffset + (RESOURCE_DIRECTORY_INDEX + 1) * 8) {
+    return null;
+  }
+  const resourceRva = optionalHeader.readUInt32LE(directoriesOffset + RESOURCE_DIRECTORY_INDEX * 8);
+  if (resourceRva === 0) {
+    return null;
+  }
+
+  // Section table, to map virtual addresses to file offsets
+  const sectionTable = await readExact(peOffset + 24 + optionalHeaderSize, sectionCount * 40);
+  const sections = Array.from({ length: sectionCount }, (_, i) => ({
+    virtualAddress: sectionTable.readUInt32LE(i * 40 + 12),
+    virtualSize: sectionTable.readUInt32LE(i * 40 + 8),
+    rawSize: sectionTable.readUInt32LE(i * 40 + 16),
+    rawOffset: sectionTable.readUInt32LE(i * 40 + 20),
+  }));
+
+  const rvaToOffset = (rva: number): number => {
+    const section = sections.find(
+      (s) => rva >= s.virtualAddress && rva < s.virtualAddress + Math.max(s.virtualSize, s.rawSize)
+    );
+    if (!section) {
+      throw new Error('Invalid PE file: address outside of sections');
+    }
+    return rva - section.virtualAddress + section.rawOffset;
+  };
+  const resourceBase = rvaToOffset(resourceRva);
+
+  // Resource tree: type (RT_VERSION) / name / language. Takes the first entry
+  // at the name and language levels.
+  const findEntry = async (directoryOffset: number, id?: number): Promise<number | null> => {
+    const header = await readExact(resourceBase + directoryOffset, 16);
+    const count = header.readUInt16LE(12) + header.readUInt16LE(14);
+    const entries = await readExact(resourceBase + directoryOffset + 16, count * 8);
+
+    for (let i = 0; i < count; i++) {
+      const name = entries.readUInt32LE(i * 8);
+      if (id === undefined || name === id) {
+        return entries.readUInt32LE(i * 8 + 4);
+      }
+    }
+    return null;
+  };
+
+  let entry = await findEntry(0, RT_VERSION);
+  for (let level = 0; entry !== null && level < 2; level++) {
+    if ((entry & 0x80000000) === 0) {
+      return null;
+    }
+    entry = await findEntry(entry & 0x7fffffff);
+  }
+  if (entry === null || entry & 0x80000000) {
+    return null;
+  }
+
+  const dataEntry = await readExact(resourceBase + entry, 8);
+  const size = dataEntry.readUInt32LE(4);
+  if (size === 0 || size > MAX_VERSION_RESOURCE_SIZE) {
+    return null;
+  }
+
+  return parseVersionResource(await readExact(rvaToOffset(dataEntry.readUInt32LE(0)), size));
+}
+
+/**
+ * A node of the VS_VERSIONINFO tree: each block has a key, an optional value
+ * and child blocks, aligned on 32-bit boundaries.
+ */
+interface VersionBlock {
+  key: string;
+  value: Buffer;
+  /** true if the value is UTF-16 text */
+  isText: boolean;
+  children: VersionBlock[];
+}
+
+function parseVersionResource(data: Buffer): PeVersionInfo {
+  const root = parseBlock(data, 0, data.length);
+  const info: PeVersionInfo = { strings: {} };
+
+  if (root.key !== 'VS_VERSION_INFO') {
+    throw new Error('Invalid version resource');
+  }
+
+  if (root.value.length >= 52 && root.value.readUInt32LE(0) === FIXED_FILE_INFO_SIGNATURE) {
+    const ms = root.value.readUInt32LE(8);
+    const ls = root.value.readUInt32LE(12);
+    info.fixedFileVersion = [ms >>> 16, ms & 0xffff, ls >>> 16, ls & 0xffff].join('.');
+  }
+
+  const stringTable = root.children.find((child) => child.key === 'StringFileInfo')?.children[0];
+  for (const entry of stringTable?.children ?? []) {
+    info.strings[entry.key] = entry.isText
+      ? entry.value.toString('utf16le').replace(/\0+$/, '')
+      : entry.value.toString('latin1');
+  }
+
+  return info;
+}
+
+function parseBlock(data: Buffer, offset: number, limit: number): VersionBlock {
+  if (offset + 6 > limit) {
+    throw new Error('Invalid version resource: truncated block');
+  }
+  const length = data.readUInt16LE(offset);
+  const valueLength = data.readUInt16LE(offset + 2);
+  const isText = data.readUInt16LE(offset + 4) === 1;
+  const end = Math.min(offset + length, limit);
+
+  // Key: null-terminated UTF-16 string
+  let keyEnd = offset + 6;
+  while (keyEnd + 1 < end && data.readUInt16LE(keyEnd) !== 0) {
+    keyEnd += 2;
+  }
+  const key = data.toString('utf16le', offset + 6, keyEnd);
+
+  // Text values are measured in characters
+  const valueStart = align4(keyEnd + 2);
+  const valueEnd = Math.min(valueStart + (isText ? valueLength * 2 : valueLength), end);
+  const value = data.subarray(valueStart, Math.max(valueStart, valueEnd));
+
+  const children: VersionBlock[] = [];
+  for (let child = align4(valueEnd); child + 6 <= end; ) {
+    const childLength = data.readUInt16LE(child);
+    if (childLength === 0) {
+      break;
+    }
+    children.push(parseBlock(data, child, end));
+    child = align4(child + childLength);
+  }
+
+  return { key, value, isText, children };
+}
+
+function align4(offset: number): number {
+  return (offset + 3) & ~3;
+}
@@ -0,0 +1,287 @@
+/**
+ * Property list reader supporting the XML and binary (bplist00) formats,
+ * so Info.plist files can be read on any platform without PlistBuddy.
+ */
+
+export type PlistValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | Buffer
+  | null
+  | PlistValue[]
+  | { [key: string]: PlistValue };
+
+/**
+ * Parses a property list, detecting its format.
+ */
+export function parsePlist(content: Buffer): PlistValue {
+  if (content.subarray(0, 8).toString('latin1') === 'bplist00') {
+    return parseBinaryPlist(content);
+  }
+  return parseXmlPlist(content.toString('utf8'));
+}
+
+// ============================================
+// XML format
+// ============================================
+
+interface XmlToken {
+  kind: 'open' | 'close' | 'empty' | 'text';
+  value: string;
+}
+
+export function parseXmlPlist(xml: string): PlistValue {
+  const tokens = tokenizeXml(xml);
+  let index = 0;
+
+  const next = (): XmlToken => {
+    const token = tokens[index++];
+    if (!token) {
+      throw new Error('Invalid plist: unexpected end of document');
+    }
+    return token;
+  };
+
+  // Text content up to the closing tag of an element
+  const readText = (tag: string): string => {
+    let text = '';
+    for (let token = next(); token.kind !== 'close' || token.value !== tag; token = next()) {
+      if (token.kind !== 'text') {
+        throw new Error(`Invalid plist: unexpected <${token.value}> in <${tag}>`);
+      }
+      text += token.value;
+    }
+    return text;
+  };
+
+  const readValue = (token: XmlToken): PlistValue => {
+    if (token.kind === 'empty') {
+      switch (token.value) {
+        case 'true': return true;
+        case 'false': return false;
+        case 'string': case 'key': return '';
+        case 'array': return [];
+        case 'dict': return {};
+        case 'data': return Buffer.alloc(0);
+        default: throw new Error(`Invalid plist: unknown element <${token.value}/>`);
+      }
+    }
+    if (token.kind !== 'open') {
+      throw new Error('Invalid plist: expected an element');
+    }
+
+    switch (token.value) {
+      case 'string':
+        return readText('string');
+      case 'integer':
+      case 'real':
+        return Number(readText(token.value).trim());
+      case 'true':
+      case 'false':
+        readText(token.value);
+        return token.value === 'true';
+      case 'date':
+        return new Date(readText('date').trim());
+      case 'data':
+        return Buffer.from(readText('data').replace(/\s+/g, ''), 'base64');
+      case 'array': {
+        const array: PlistValue[] = [];
+        for (let item = next(); item.kind !== 'close'; item = next()) {
+          array.push(readValue(item));
+        }
+        return array;
+      }
+      case 'dict': {
+        const dict: { [key: string]: PlistValue } = {};
+        for (let item = next(); item.kind !== 'close'; item = next()) {
+          if (item.value !== 'key') {
+            throw new Error(`Invalid plist: expected <key>, found <${item.value}>`);
+          }
+          const key = item.kind === 'empty' ? '' : readText('key');
+          dict[key] = readValue(next());
+        }
+        return dict;
+      }
+      default:
+        throw new Error(`Invalid plist: unknown element <${token.value}>`);
+    }
+  };
+
+  const root = next();
+  if (root.kind !== 'open' || root.value !== 'plist') {
+    throw new Error('Invalid plist: missing <plist> element');
+  }
+  return readValue(next());
+}
+
+/**
+ * Splits an XML document into element and text tokens. Whitespace-only text
+ * between elements is dropped; declarations and comments are skipped.
+ */
+function tokenizeXml(xml: string): XmlToken[] {
+  const tokens: XmlToken[] = [];
+  const pattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<![^>]*>|<(\/?)([A-Za-z]+)[^>]*?(\/?)>|([^<]+)/g;
+
+  for (let match = pattern.exec(xml); match; match = pattern.exec(xml)) {
+    const [, closing, name, selfClosing, text] = match;
+    if (name) {
+      tokens.push({ kind: closing ? 'close' : selfClosing ? 'empty' : 'open', value: name });
+    } else if (text !== undefined) {
+      const previous = tokens[tokens.length - 1];
+      // Whitespace is only significant inside text elements
+      if (text.trim() || (previous?.kind === 'open' && /^(string|key)$/.test(previous.value))) {
+        tokens.push({ kind: 'text', value: decodeEntities(text) });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+}
+
+// ============================================
+// Binary format
+// ============================================
+
+/** Seconds between the Unix epoch and the Core Data epoch (2001-01-01) */
+const CORE_DATA_EPOCH_OFFSET = 978307200;
+
+export function parseBinaryPlist(buffer: Buffer): PlistValue {
+  if (buffer.length < 40) {
+    throw new Error('Invalid binary plist: file too short');
+  }
+
+  const trailer = buffer.subarray(buffer.length - 32);
+  const offsetSize = trailer.readUInt8(6);
+  const refSize = trailer.readUInt8(7);
+  const objectCount = Number(trailer.readBigUInt64BE(8));
+  const topObject = Number(trailer.readBigUInt64BE(16));
+  const offsetTableOffset = Number(trailer.readBigUInt64BE(24));
+
+  const readUInt = (offset: number, size: number): number => {
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+      value = value * 256 + buffer[offset + i];
+    }
+    return value;
+  };
+
+  const objectOffset = (ref: number): number => {
+    if (ref >= objectCount) {
+      throw new Error(`Invalid binary plist: object reference ${ref} out of range`);
+    }
+    return readUInt(offsetTableOffset + ref * offsetSize, offsetSize);
+  };
+
+  // Guards against reference cycles in malformed files
+  const visiting = new Set<number>();
+
+  const readObject = (ref: number): PlistValue => {
+    if (visiting.has(ref)) {
+      throw new Error('Invalid binary plist: reference cycle');
+    }
+    visiting.add(ref);
+    try {
+      return readObjectAt(objectOffset(ref));
+    } finally {
+      visiting.delete(ref);
+    }
+  };
+
+  // Length stored in the low nibble, or in a following integer object when 0xF
+  const readLength = (offset: number, info: number): { length: number; start: number } => {
+    if (info !== 0xf) {
+      return { length: info, start: offset + 1 };
+    }
+    const intSize = 1 << (buffer[offset + 1] & 0xf);
+    return { length: readUInt(offset + 2, intSize), start: offset + 2 + intSize };
+  };
+
+  const readObjectAt = (offset: number): PlistValue => {
+    const marker = buffer[offset];
+    const type = marker >> 4;
+    const info = marker & 0xf;
+
+    switch (type) {
+      case 0x0:
+        if (info === 0x8) { return false; }
+        if (info === 0x9) { return true; }
+        return null;
+
+      case 0x1: {
+        const size = 1 << info;
+        if (size === 8) {
+          return Number(buffer.readBigInt64BE(offset + 1));
+        }
+        return readUInt(offset + 1, size);
+      }
+
+      case 0x2:
+        return info === 2 ? buffer.readFloatBE(offset + 1) : buffer.readDoubleBE(offset + 1);
+
+      case 0x3:
+        return new Date((buffer.readDoubleBE(offset + 1) + CORE_DATA_EPOCH_OFFSET) * 1000);
+
+      case 0x4: {
+        const { length, start } = readLength(offset, info);
+        return Buffer.from(buffer.subarray(start, start + length));
+      }
+
+      case 0x5: {
+        const { length, start } = readLength(offset, info);
+        return buffer.subarray(start, start + length).toString('latin1');
+      }
+
+      case 0x6: {
+        const { length, start } = readLength(offset, info);
+        const utf16 = Buffer.from(buffer.subarray(start, start + length * 2));
+        return utf16.swap16().toString('utf16le');
+      }
+
+      case 0x8:
+        return readUInt(offset + 1, info + 1);
+
+      case 0xa: {
+        const { length, start } = readLength(offset, info);
+        const array: PlistValue[] = [];
+        for (let i = 0; i < length; i++) {
+          array.push(readObject(readUInt(start + i * refSize, refSize)));
+        }
+        return array;
+      }
+
+      case 0xd: {
+        const { length, start } = readLength(offset, info);
+        const dict: { [key: string]: PlistValue } = {};
+        for (let i = 0; i < length; i++) {
+          const key = readObject(readUInt(start + i * refSize, refSize));
+          const value = readObject(readUInt(start + (length + i) * refSize, refSize));
+          dict[String(key)] = value;
+        }
+        return dict;
+      }
+
+      default:
+        throw new Error(`Invalid binary plist: unsupported object type 0x${type.toString(16)}`);
+    }
+  };
+
+  return readObject(topObject);
+}
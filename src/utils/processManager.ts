@@ -0,0 +1,256 @@
+import { execFile } from 'child_process';
+import { LaunchOptions } from './launcher';
+
+/**
+ * A 4D instance launched by the extension.
+ */
+export interface Running4DInstance {
+  /** Registry identifier (unique for the session) */
+  id: number;
+  /** Process ID of the launched 4D application */
+  pid: number;
+  /** Path to the 4D application used for the launch */
+  appPath: string;
+  /** Path to the opened project (.4DProject or .4dlink) */
+  projectPath: string;
+  /** Options the instance was launched with */
+  options: LaunchOptions;
+  /** Launch timestamp (ms since epoch) */
+  startTime: number;
+  /** Set when the user asked the instance to stop or killed it */
+  stopRequested?: boolean;
+  /** Set while the launch readiness is checked; exits during startup are reported by the check */
+  startupMonitored?: boolean;
+}
+
+/**
+ * Receives the output and termination of launched instances.
+ */
+export interface InstanceListener {
+  onStart?(instance: Running4DInstance): void;
+  onOutput?(instance: Running4DInstance, stream: 'stdout' | 'stderr', text: string): void;
+  onExit?(instance: Running4DInstance, code: number | null, signal: string | null): void;
+}
+
+// Registry of launched instances - stored in memory
+const instances = new Map<number, Running4DInstance>();
+let nextId = 1;
+
+const listeners: InstanceListener[] = [];
+
+/**
+ * Subscribe to instance events. Returns a disposable-like object.
+ */
+export function addInstanceListener(listener: InstanceListener): { dispose(): void } {
+  listeners.push(listener);
+  return {
+    dispose: () => {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) {
+        listeners.splice(index, 1);
+      }
+    },
+  };
+}
+
+/**
+ * Record a newly launched 4D instance.
+ */
+export function registerInstance(
+  pid: number,
+  appPath: string,
+  projectPath: string,
+  options: LaunchOptions
+): Running4DInstance {
+  const instance: Running4DInstance = {
+    id: nextId++,
+    pid,
+    appPath,
+    projectPath,
+    options: { ...options },
+    startTime: Date.now(),
+  };
+  instances.set(instance.id, instance);
+  listeners.forEach((l) => l.onStart?.(instance));
+  return instance;
+}
+
+/**
+ * Forward a chunk of process output to the listeners.
+ */
+export function reportInstanceOutput(
+  instance: Running4DInstance,
+  stream: 'stdout' | 'stderr',
+  text: string
+): void {
+  listeners.forEach((l) => l.onOutput?.(instance, stream, text));
+}
+
+/**
+ * Remove an exited instance from the registry and notify the listeners.
+ */
+export function reportInstanceExit(
+  instance: Running4DInstance,
+  code: number | null,
+  signal: string | null
+): void {
+  instances.delete(instance.id);
+  listeners.forEach((l) => l.onExit?.(instance, code, signal));
+}
+
+/**
+ * Get all instances that are still running. Instances whose process has
+ * disappeared are pruned from the registry.
+ */
+export function getRunningInstances(): Running4DInstance[] {
+  for (const instance of instances.values()) {
+    if (!isProcessAlive(instance.pid)) {
+      instances.delete(instance.id);
+    }
+  }
+  return Array.from(instances.values());
+}
+
+/**
+ * Check whether a process is still alive.
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    // Signal 0 only checks for existence, it does not affect the process
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Stop a running instance.
+ *
+ * @param force - Kill the process immediately instead of asking it to quit
+ */
+export async function stopInstance(
+  instance: Running4DInstance,
+  force: boolean = false
+): Promise<void> {
+  instance.stopRequested = true;
+
+  if (process.platform === 'win32') {
+    // /T also terminates the child processes started by 4D
+    const args = ['/PID', String(instance.pid), '/T'];
+    if (force) {
+      args.unshift('/F');
+    }
+    await execFileAsync('taskkill', args);
+  } else {
+    // 4D is spawned detached, so it leads a process group that also holds
+    // the helper processes it started
+    const signal = force ? 'SIGKILL' : 'SIGTERM';
+    try {
+      process.kill(-instance.pid, signal);
+    } catch {
+      process.kill(instance.pid, signal);
+    }
+  }
+}
+
+/**
+ * Wait until the process of an instance has exited.
+ *
+ * @returns true if the process exited before the timeout
+ */
+export async function waitForExit(
+  instance: Running4DInstance,
+  timeout: number = 15000
+): Promise<boolean> {
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    if (!isProcessAlive(instance.pid)) {
+      instances.delete(instance.id);
+      return true;
+    }
+    await delay(250);
+  }
+  return false;
+}
+
+/**
+ * How the wait for an instance ended.
+ */
+export type InstanceExitReason = 'exited' | 'cancelled' | 'timeout';
+
+/**
+ * Wait for an instance to exit, killing it if the wait is cancelled or times out.
+ *
+ * @param isCancelled - Polled while waiting
+ */
+export function watchInstanceExit(
+  instance: Running4DInstance,
+  timeoutMs: number,
+  isCancelled: () => boolean = () => false
+): Promise<{ reason: InstanceExitReason; code: number | null }> {
+  return new Promise((resolve) => {
+    const listener = addInstanceListener({
+      onExit: (running, code) => {
+        if (running.id === instance.id) {
+          cleanup();
+          resolve({ reason: 'exited', code });
+        }
+      },
+    });
+
+    const deadline = Date.now() + timeoutMs;
+    const timer = setInterval(() => {
+      const cancelled = isCancelled();
+      if (cancelled || Date.now() > deadline) {
+        cleanup();
+        stopInstance(instance, true).catch(() => undefined);
+        resolve({ reason: cancelled ? 'cancelled' : 'timeout', code: null });
+      }
+    }, 250);
+
+    const cleanup = () => {
+      clearInterval(timer);
+      listener.dispose();
+    };
+  });
+}
+
+/**
+ * Format how long an instance has been running.
+ */
+export function formatUptime(instance: Running4DInstance): string {
+  return formatDuration(Date.now() - instance.startTime);
+}
+
+/**
+ * Format a duration in milliseconds for display (e.g. "42s", "5m", "1h 12m").
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m`;
+  }
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function execFileAsync(file: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(file, args, (error, stdout) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,220 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { COMPONENTS_FOLDER_PATTERN, FourDProjectFile } from './projectFinder';
+
+/** Projects found in each workspace folder, by folder URI */
+const cache = new Map<string, Promise<FourDProjectFile[]>>();
+
+const changeEmitter = new vscode.EventEmitter<void>();
+
+/**
+ * Fired when projects are created or deleted, workspace folders change or the
+ * discovery settings change.
+ */
+export const onDidChangeProjects = changeEmitter.event;
+
+/**
+ * Returns the .4DProject files of a workspace folder, excluding those in
+ * Components folders and hidden folders, sorted by relative path.
+ * Results are cached until a project file is created or deleted.
+ */
+export function getFolderProjects(folder: vscode.WorkspaceFolder): Promise<FourDProjectFile[]> {
+  const key = folder.uri.toString();
+  let projects = cache.get(key);
+
+  if (!projects) {
+    const search = searchFolderProjects(folder);
+    projects = search;
+    cache.set(key, search);
+    // Search again next time if this one failed
+    search.catch(() => {
+      if (cache.get(key) === search) {
+        cache.delete(key);
+      }
+    });
+  }
+
+  return projects;
+}
+
+/**
+ * Keeps the project index up to date: watches project files, workspace
+ * folders and discovery settings, and clears the selected project of a
+ * folder when its file is deleted or moved.
+ */
+export function registerProjectIndex(context: vscode.ExtensionContext): void {
+  const watcher = vscode.workspace.createFileSystemWatcher('**/*.4DProject', false, true, false);
+  watcher.onDidCreate((uri) => invalidate(uri));
+  watcher.onDidDelete((uri) => removed(uri));
+
+  context.subscriptions.push(
+    watcher,
+    changeEmitter,
+    // Folders deleted or moved from VS Code, which the watcher does not report
+    vscode.workspace.onDidDeleteFiles((event) => event.files.forEach(removed)),
+    vscode.workspace.onDidRenameFiles((event) => {
+      for (const { oldUri, newUri } of event.files) {
+        removed(oldUri);
+        invalidate(newUri);
+      }
+    }),
+    vscode.workspace.onDidChangeWorkspaceFolders((event) => {
+      for (const folder of event.removed) {
+        cache.delete(folder.uri.toString());
+      }
+      changeEmitter.fire();
+      clearMissingSelections().catch(() => {
+        // The selection is checked again on the next change
+      });
+    }),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (
+        event.affectsConfiguration('4d-helper.projects') ||
+        event.affectsConfiguration('files.exclude') ||
+        event.affectsConfiguration('search.exclude')
+      ) {
+        cache.clear();
+        changeEmitter.fire();
+      }
+    })
+  );
+
+  // Projects may have been deleted while VS Code was closed
+  clearMissingSelections().catch(() => {
+    // The selection is checked again on the next change
+  });
+}
+
+async function searchFolderProjects(folder: vscode.WorkspaceFolder): Promise<FourDProjectFile[]> {
+  const config = vscode.workspace.getConfiguration('4d-helper', folder.uri);
+  const maxDepth = config.get<number>('projects.maxDepth', 5);
+
+  const uris = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(folder, getDepthPattern(maxDepth)),
+    getExcludePattern(folder)
+  );
+
+  const projects: FourDProjectFile[] = [];
+  for (const uri of uris) {
+    const relativePath = path.relative(folder.uri.fsPath, uri.fsPath);
+    const folders = path.dirname(relativePath).split(path.sep).filter((segment) => segment !== '.');
+
+    if (folders.some((segment) => segment.startsWith('.') || COMPONENTS_FOLDER_PATTERN.test(segment))) {
+      continue;
+    }
+
+    projects.push({
+      path: uri.fsPath,
+      name: path.basename(uri.fsPath, '.4DProject'),
+      parentFolder: path.basename(path.dirname(uri.fsPath)),
+      relativePath,
+    });
+  }
+
+  return projects.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+}
+
+/**
+ * Glob matching .4DProject files at most `maxDepth` folders deep, one
+ * alternative per level: "*.4DProject" at the root, then one more "*" folder
+ * segment per level. Deeper files are left out of the search itself.
+ */
+function getDepthPattern(maxDepth: number): string {
+  const depth = Math.max(0, Math.floor(maxDepth));
+  const patterns = Array.from({ length: depth + 1 }, (_, level) => `${'*/'.repeat(level)}*.4DProject`);
+  return `{${patterns.join(',')}}`;
+}
+
+/**
+ * Combines `files.exclude`, `search.exclude` and `4d-helper.projects.exclude`
+ * in a single glob pattern.
+ */
+function getExcludePattern(folder: vscode.WorkspaceFolder): string | undefined {
+  const patterns = [
+    ...enabledPatterns(vscode.workspace.getConfiguration('files', folder.uri).get('exclude')),
+    ...enabledPatterns(vscode.workspace.getConfiguration('search', folder.uri).get('exclude')),
+    ...vscode.workspace.getConfiguration('4d-helper', folder.uri).get<string[]>('projects.exclude', []),
+  ].flatMap(expandBraces);
+
+  return patterns.length > 0 ? `{${patterns.join(',')}}` : undefined;
+}
+
+/**
+ * Returns the patterns of an exclude setting that are enabled. Patterns with
+ * a `when` condition depend on sibling files and are not applied.
+ */
+function enabledPatterns(setting: unknown): string[] {
+  if (typeof setting !== 'object' || setting === null) {
+    return [];
+  }
+  return Object.entries(setting)
+    .filter(([, enabled]) => enabled === true)
+    .map(([pattern]) => pattern);
+}
+
+/**
+ * Expands brace groups, since groups cannot be nested in the combined pattern.
+ * e.g. "Build{,s}/**" becomes "Build/**" and "Builds/**".
+ */
+function expandBraces(pattern: string): string[] {
+  const group = /\{([^{}]*)\}/.exec(pattern);
+  if (!group) {
+    return [pattern];
+  }
+
+  const before = pattern.slice(0, group.index);
+  const after = pattern.slice(group.index + group[0].length);
+  return group[1].split(',').flatMap((option) => expandBraces(before + option + after));
+}
+
+/**
+ * Forgets the projects of the folder containing a created or deleted file.
+ */
+function invalidate(uri: vscode.Uri): void {
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  if (folder) {
+    cache.delete(folder.uri.toString());
+    changeEmitter.fire();
+  }
+}
+
+/**
+ * Handles a deleted or moved file or folder.
+ */
+function removed(uri: vscode.Uri): void {
+  invalidate(uri);
+  clearSelections((selected) => isSameOrInside(selected, uri.fsPath)).catch(() => {
+    // The selection is checked again on the next change
+  });
+}
+
+async function clearMissingSelections(): Promise<void> {
+  await clearSelections((selected) => !fs.existsSync(selected));
+}
+
+/**
+ * Clears the `selectedProject` setting of the workspace folders where it
+ * matches, in the folder and workspace settings.
+ */
+async function clearSelections(isStale: (selected: string) => boolean): Promise<void> {
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const config = vscode.workspace.getConfiguration('4d-helper', folder.uri);
+    const inspected = config.inspect<string>('selectedProject');
+
+    const values: [string | undefined, vscode.ConfigurationTarget][] = [
+      [inspected?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder],
+      [inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace],
+    ];
+    for (const [selected, target] of values) {
+      if (selected && isStale(selected)) {
+        await config.update('selectedProject', undefined, target);
+      }
+    }
+  }
+}
+
+function isSameOrInside(filePath: string, folderPath: string): boolean {
+  const relative = path.relative(folderPath, filePath);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
@@ -0,0 +1,107 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { addInstanceListener, getRunningInstances, formatUptime } from './processManager';
+import { onDidChangeProjects } from './projectIndex';
+
+/**
+ * What the status bar item shows.
+ */
+export interface ProjectStatus {
+  /** true if the workspace contains 4D projects */
+  hasProjects: boolean;
+  /** Project used by the launch commands; undefined when the user must choose */
+  projectFile?: string;
+  /** Name of the application last used to open the project */
+  application?: string;
+}
+
+/**
+ * Shows the selected 4D project, its last used application and whether an
+ * instance of it is running in a status bar item.
+ *
+ * @param getStatus - Resolves the project and application to show
+ * @param command - Command run when the item is clicked
+ * @returns A function updating the item, e.g. after a launch
+ */
+export function registerProjectStatusBar(
+  context: vscode.ExtensionContext,
+  getStatus: () => Promise<ProjectStatus>,
+  command: string
+): () => void {
+  const item = vscode.window.createStatusBarItem('4d-helper.project', vscode.StatusBarAlignment.Left, 10);
+  item.name = '4D Project';
+  item.command = command;
+
+  // Only the latest update is shown when several overlap
+  let generation = 0;
+
+  const refresh = async () => {
+    const current = ++generation;
+    const status = await getStatus();
+    if (current !== generation) {
+      return;
+    }
+
+    if (!status.hasProjects) {
+      item.hide();
+      return;
+    }
+
+    if (!status.projectFile) {
+      item.text = '$(circle-outline) 4D: Select Project';
+      item.tooltip = 'Several 4D projects found. Click to choose one.';
+      item.show();
+      return;
+    }
+
+    const projectFile = status.projectFile;
+    const instance = getRunningInstances().find((running) => running.projectPath === projectFile);
+    const name = path.basename(projectFile, '.4DProject');
+
+    item.text = `${instance ? '$(circle-filled)' : '$(circle-outline)'} ${name}` +
+      (status.application ? ` · ${status.application}` : '');
+
+    const relativePath = vscode.workspace.asRelativePath(projectFile);
+    const tooltip = new vscode.MarkdownString();
+    tooltip.appendMarkdown(`**${name}**\n\n`);
+    tooltip.appendText(relativePath);
+    tooltip.appendMarkdown(`\n\nApplication: ${status.application ?? 'not chosen yet'}\n\n`);
+    tooltip.appendMarkdown(
+      instance
+        ? `Running: PID ${instance.pid}, up ${formatUptime(instance)}`
+        : 'Not running'
+    );
+    tooltip.appendMarkdown('\n\nClick for project actions');
+    item.tooltip = tooltip;
+    item.show();
+  };
+
+  const update = () => {
+    refresh().catch(() => {
+      // Keep the last state when the workspace cannot be read
+    });
+  };
+
+  const listener = addInstanceListener({
+    onStart: update,
+    onExit: update,
+  });
+
+  context.subscriptions.push(
+    item,
+    listener,
+    vscode.window.onDidChangeActiveTextEditor(update),
+    onDidChangeProjects(update),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (
+        event.affectsConfiguration('4d-helper.selectedProject') ||
+        event.affectsConfiguration('4d-helper.applications')
+      ) {
+        update();
+      }
+    })
+  );
+
+  update();
+  return update;
+}
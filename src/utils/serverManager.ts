@@ -2,7 +2,7 @@ import * as vscode from "vscode";
 import * as fs from "fs/promises";
 import * as path from "path";
 import * as os from "os";
-import { Server4DDiscoveryInfo } from "./serverScanner";
+import { Server4DDiscoveryInfo, checkPort, discover4DServer } from "./serverScanner";
 
 export interface Server4D {
   name: string;
@@ -17,47 +17,6 @@ export interface Server4DWithStatus extends Server4D {
   discoveryInfo?: Server4DDiscoveryInfo; // Info from UDP discovery
 }
 
-// Valid 4D client bundle identifiers (macOS)
-const VALID_4D_CLIENT_BUNDLE_IDS = [
-  "com.4D.4D", // 4D IDE/Client
-  "com.4D.4DRuntimeVolumeLicense", // 4D Volume Desktop (merged clients)
-];
-
-// 4D Server bundle identifier to exclude
-const SERVER_BUNDLE_ID = "com.4D.4DServer";
-
-/**
- * Check if a 4D application is a valid client (not a server) on macOS
- */
-export async function is4DClient(appPath: string): Promise<boolean> {
-  if (process.platform !== "darwin") {
-    // On Windows, check if the executable name contains "Server"
-    const appName = path.basename(appPath).toLowerCase();
-    return !appName.includes("server");
-  }
-
-  // On macOS, read the Info.plist
-  const infoPlistPath = path.join(appPath, "Contents", "Info.plist");
-
-  try {
-    // Use PlistBuddy to read the bundle identifier
-    const { exec } = require("child_process");
-    const { promisify } = require("util");
-    const execAsync = promisify(exec);
-
-    const { stdout } = await execAsync(
-      `/usr/libexec/PlistBuddy -c 'Print CFBundleIdentifier' "${infoPlistPath}"`
-    );
-
-    const bundleId = stdout.trim();
-    return VALID_4D_CLIENT_BUNDLE_IDS.includes(bundleId);
-  } catch {
-    // Fallback: check app name
-    const appName = path.basename(appPath).toLowerCase();
-    return !appName.includes("server");
-  }
-}
-
 /**
  * Get saved servers from configuration
  */
@@ -112,6 +71,41 @@ export async function removeServer(host: string, port: number): Promise<void> {
   await saveServers(filtered, vscode.ConfigurationTarget.Global);
 }
 
+/**
+ * Check whether a server is online using UDP discovery, which also returns
+ * its database name, then the ports next to it via TCP.
+ * Falls back to a TCP check of the port when discovery gets no answer.
+ */
+export async function checkServerStatus(
+  server: Server4D,
+  timeout: number
+): Promise<Server4DWithStatus> {
+  const info = await discover4DServer(server.host, server.port, timeout);
+
+  if (!info) {
+    const result = await checkPort(server.host, server.port, timeout);
+    return { ...server, isOnline: result.isOpen, responseTime: result.responseTime };
+  }
+
+  const relatedPorts: number[] = [];
+  for (let offset = -2; offset <= 2; offset++) {
+    const relatedPort = server.port + offset;
+    if (relatedPort > 0 && relatedPort <= 65535) {
+      const result = await checkPort(server.host, relatedPort, timeout);
+      if (result.isOpen) {
+        relatedPorts.push(relatedPort);
+      }
+    }
+  }
+
+  return {
+    ...server,
+    isOnline: true,
+    discoveryInfo: info,
+    detectedPorts: relatedPorts.sort((a, b) => a - b),
+  };
+}
+
 /**
  * Get scan settings from configuration
  */
@@ -0,0 +1,199 @@
+import * as vscode from 'vscode';
+import { getFolderProjects } from './projectIndex';
+import { open4DProject, extractLaunchOptions, LaunchOptions } from './launcher';
+import { getApplications, findApplicationByName, filterApplicationsByKind, PROJECT_KINDS } from './applications';
+import { addInstanceListener, formatDuration, Running4DInstance, stopInstance } from './processManager';
+import { resolveProjectPath, resolveOptionPaths } from './workspaceProjects';
+
+export const FOURD_TASK_TYPE = '4d';
+
+/**
+ * Definition of a `4d` task in tasks.json. Mirrors LaunchOptions.
+ */
+export interface FourDTaskDefinition extends vscode.TaskDefinition, LaunchOptions {
+  /** Name of the 4D application, as configured in `4d-helper.applications` */
+  application: string;
+  /** Path to the .4DProject file, absolute or relative to the workspace folder */
+  project?: string;
+  /** Keep the task running until 4D exits and use its exit code */
+  waitForExit?: boolean;
+}
+
+/**
+ * Provides `4d` tasks: one per configured application and discovered project,
+ * and resolves user-defined `4d` tasks from tasks.json.
+ */
+export class FourDTaskProvider implements vscode.TaskProvider {
+  async provideTasks(): Promise<vscode.Task[]> {
+    const applications = await filterApplicationsByKind(getApplications(), PROJECT_KINDS);
+    const tasks: vscode.Task[] = [];
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const projects = await getFolderProjects(folder);
+
+      for (const project of projects) {
+        for (const app of applications) {
+          const definition: FourDTaskDefinition = {
+            type: FOURD_TASK_TYPE,
+            application: app.name,
+            project: project.relativePath,
+          };
+          tasks.push(createTask(definition, folder, `Open ${project.name} with ${app.name}`));
+        }
+      }
+    }
+
+    return tasks;
+  }
+
+  resolveTask(task: vscode.Task): vscode.Task | undefined {
+    const definition = task.definition as FourDTaskDefinition;
+    if (!definition.application) {
+      return undefined;
+    }
+
+    const folder = isWorkspaceFolder(task.scope) ? task.scope : vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+      return undefined;
+    }
+
+    // The definition must be the one from tasks.json for VS Code to match the task
+    return createTask(definition, folder, task.name);
+  }
+}
+
+function createTask(
+  definition: FourDTaskDefinition,
+  folder: vscode.WorkspaceFolder,
+  name: string
+): vscode.Task {
+  const task = new vscode.Task(
+    definition,
+    folder,
+    name,
+    FOURD_TASK_TYPE,
+    new vscode.CustomExecution(async () => new FourDTaskTerminal(definition, folder))
+  );
+  task.presentationOptions = { reveal: vscode.TaskRevealKind.Silent };
+  return task;
+}
+
+function isWorkspaceFolder(
+  scope: vscode.Task['scope']
+): scope is vscode.WorkspaceFolder {
+  return typeof scope === 'object' && scope !== null && 'uri' in scope;
+}
+
+/**
+ * Pseudo terminal running a `4d` task through open4DProject.
+ */
+class FourDTaskTerminal implements vscode.Pseudoterminal {
+  private readonly writeEmitter = new vscode.EventEmitter<string>();
+  private readonly closeEmitter = new vscode.EventEmitter<number>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  /** Instance the task waits for, until it exits */
+  private waitedInstance: Running4DInstance | undefined;
+  private closed = false;
+
+  readonly onDidWrite = this.writeEmitter.event;
+  readonly onDidClose = this.closeEmitter.event;
+
+  constructor(
+    private readonly definition: FourDTaskDefinition,
+    private readonly folder: vscode.WorkspaceFolder
+  ) {}
+
+  open(): void {
+    this.run().then(
+      (code) => this.closeEmitter.fire(code),
+      (error) => {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.writeLine(`Error: ${message}`);
+        this.closeEmitter.fire(1);
+      }
+    );
+  }
+
+  /**
+   * Called when the terminal is closed or the task is terminated. A task
+   * waiting for 4D to exit stops it, since the run it stands for is cancelled.
+   */
+  close(): void {
+    this.closed = true;
+    this.disposables.forEach((d) => d.dispose());
+
+    if (this.waitedInstance) {
+      stopWaitedInstance(this.waitedInstance);
+      this.waitedInstance = undefined;
+    }
+  }
+
+  private async run(): Promise<number> {
+    const app = findApplicationByName(this.definition.application);
+    if (!app) {
+      throw new Error(`4D application "${this.definition.application}" is not configured`);
+    }
+
+    const projectFile = await resolveProjectPath(this.definition.project, this.folder);
+    const options = resolveOptionPaths(extractLaunchOptions(this.definition), this.folder);
+
+    this.writeLine(`Opening ${projectFile} with ${app.name}`);
+    this.writeLine(`Options: ${JSON.stringify(options)}`);
+
+    const instance = await open4DProject(app.path, projectFile, options);
+
+    if (!this.definition.waitForExit) {
+      this.writeLine(instance ? `4D started (PID ${instance.pid})` : '4D started');
+      return 0;
+    }
+
+    if (!instance) {
+      throw new Error('Cannot wait for 4D to exit: its process could not be identified');
+    }
+
+    if (this.closed) {
+      // The task was terminated while 4D was starting
+      stopWaitedInstance(instance);
+      return 1;
+    }
+    this.waitedInstance = instance;
+
+    this.writeLine(`4D started (PID ${instance.pid}), waiting for it to exit...`);
+
+    return new Promise<number>((resolve) => {
+      this.disposables.push(
+        addInstanceListener({
+          onOutput: (running, _stream, text) => {
+            if (running.id === instance.id) {
+              this.writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+            }
+          },
+          onExit: (running, code, signal) => {
+            if (running.id !== instance.id) {
+              return;
+            }
+            this.waitedInstance = undefined;
+            const duration = formatDuration(Date.now() - running.startTime);
+            this.writeLine(
+              signal
+                ? `4D was terminated by ${signal} after ${duration}`
+                : `4D exited with code ${code} after ${duration}`
+            );
+            resolve(code ?? 1);
+          },
+        })
+      );
+    });
+  }
+
+  private writeLine(line: string): void {
+    this.writeEmitter.fire(`${line}\r\n`);
+  }
+}
+
+function stopWaitedInstance(instance: Running4DInstance): void {
+  stopInstance(instance).catch(() => {
+    // The process has already exited
+  });
+}
@@ -0,0 +1,257 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getFolderProjects, onDidChangeProjects } from './projectIndex';
+import { FourDApplication } from './applications';
+import {
+  DiscoveredTest,
+  TestPatterns,
+  TestResult,
+  discoverTests,
+  runTests
+} from './testDiscovery';
+
+/** Project file and runner ID attached to each test item */
+interface TestItemData {
+  projectFile: string;
+  testId?: string;
+}
+
+/**
+ * Registers the 4D test controller: discovers test classes and methods in the
+ * workspace projects and runs them headless through the project's runner method.
+ *
+ * @param chooseApplication - Returns the 4D application used to run the tests
+ */
+export function registerTestController(
+  context: vscode.ExtensionContext,
+  chooseApplication: () => Promise<FourDApplication | undefined>
+): void {
+  const controller = vscode.tests.createTestController('4d-helper.tests', '4D Tests');
+  const itemData = new WeakMap<vscode.TestItem, TestItemData>();
+
+  const refresh = async () => {
+    const patterns = getTestPatterns();
+    const roots: vscode.TestItem[] = [];
+
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      for (const project of await getFolderProjects(folder)) {
+        const tests = await discoverTests(project.path, patterns);
+        if (tests.length === 0) {
+          continue;
+        }
+
+        const root = controller.createTestItem(
+          `project:${project.path}`,
+          project.name,
+          vscode.Uri.file(project.path)
+        );
+        root.description = project.relativePath;
+        itemData.set(root, { projectFile: project.path });
+
+        for (const test of tests) {
+          root.children.add(createItem(test, project.path));
+        }
+        roots.push(root);
+      }
+    }
+
+    controller.items.replace(roots);
+  };
+
+  const createItem = (test: DiscoveredTest, projectFile: string): vscode.TestItem => {
+    const item = controller.createTestItem(
+      `${projectFile}#${test.id}`,
+      test.label,
+      vscode.Uri.file(test.file)
+    );
+    item.range = new vscode.Range(test.line, 0, test.line, 0);
+    itemData.set(item, { projectFile, testId: test.id });
+
+    for (const child of test.children) {
+      item.children.add(createItem(child, projectFile));
+    }
+    return item;
+  };
+
+  const runHandler = async (request: vscode.TestRunRequest, token: vscode.CancellationToken) => {
+    const run = controller.createTestRun(request);
+
+    // Collect the leaf tests to run, grouped by project
+    const leavesByProject = new Map<string, Map<string, vscode.TestItem>>();
+    const collect = (item: vscode.TestItem) => {
+      if (request.exclude?.includes(item)) {
+        return;
+      }
+      if (item.children.size > 0) {
+        item.children.forEach(collect);
+        return;
+      }
+      const data = itemData.get(item);
+      if (data?.testId) {
+        const leaves = leavesByProject.get(data.projectFile) ?? new Map<string, vscode.TestItem>();
+        leaves.set(data.testId, item);
+        leavesByProject.set(data.projectFile, leaves);
+      }
+    };
+
+    if (request.include) {
+      request.include.forEach(collect);
+    } else {
+      controller.items.forEach(collect);
+    }
+
+    try {
+      const app = leavesByProject.size > 0 ? await chooseApplication() : undefined;
+      if (!app) {
+        leavesByProject.forEach((leaves) => leaves.forEach((item) => run.skipped(item)));
+        return;
+      }
+
+      for (const [projectFile, leaves] of leavesByProject) {
+        if (token.isCancellationRequested) {
+          leaves.forEach((item) => run.skipped(item));
+          continue;
+        }
+        await runProjectTests(run, app, projectFile, leaves, token);
+      }
+    } finally {
+      run.end();
+    }
+  };
+
+  controller.refreshHandler = refresh;
+  controller.createRunProfile('Run', vscode.TestRunProfileKind.Run, runHandler, true);
+
+  // Keep the tree up to date when sources change
+  let refreshTimer: NodeJS.Timeout | undefined;
+  const scheduleRefresh = () => {
+    clearTimeout(refreshTimer);
+    refreshTimer = setTimeout(() => refresh(), 500);
+  };
+
+  const watcher = vscode.workspace.createFileSystemWatcher('**/Sources/{Classes,Methods}/*.4dm');
+  watcher.onDidCreate(scheduleRefresh);
+  watcher.onDidChange(scheduleRefresh);
+  watcher.onDidDelete(scheduleRefresh);
+
+  const configListener = vscode.workspace.onDidChangeConfiguration((event) => {
+    if (event.affectsConfiguration('4d-helper.tests')) {
+      scheduleRefresh();
+    }
+  });
+  const projectsListener = onDidChangeProjects(scheduleRefresh);
+
+  context.subscriptions.push(controller, watcher, configListener, projectsListener, {
+    dispose: () => clearTimeout(refreshTimer),
+  });
+
+  refresh();
+}
+
+/**
+ * Runs the given tests of a project and reports their results.
+ */
+async function runProjectTests(
+  run: vscode.TestRun,
+  app: FourDApplication,
+  projectFile: string,
+  leaves: Map<string, vscode.TestItem>,
+  token: vscode.CancellationToken
+): Promise<void> {
+  const config = vscode.workspace.getConfiguration('4d-helper', vscode.Uri.file(projectFile));
+  const runnerMethod = config.get<string>('tests.runnerMethod', '');
+  const timeout = config.get<number>('tests.timeout', 600);
+
+  if (!runnerMethod) {
+    const message = new vscode.TestMessage(
+      'No test runner method configured. Set "4d-helper.tests.runnerMethod".'
+    );
+    leaves.forEach((item) => run.errored(item, message));
+    return;
+  }
+
+  leaves.forEach((item) => run.started(item));
+
+  try {
+    run.appendOutput(`Running ${leaves.size} test(s) of ${path.basename(projectFile)} with ${app.name}\r\n`);
+
+    const results = await runTests(
+      app.path,
+      projectFile,
+      Array.from(leaves.keys()),
+      { runnerMethod, timeout },
+      (text) => run.appendOutput(text.replace(/\r?\n/g, '\r\n')),
+      () => token.isCancellationRequested
+    );
+    if (!results) {
+      leaves.forEach((item) => run.skipped(item));
+      return;
+    }
+
+    reportResults(run, leaves, results);
+  } catch (error) {
+    const message = new vscode.TestMessage(error instanceof Error ? error.message : 'Unknown error');
+    leaves.forEach((item) => run.errored(item, message));
+  }
+}
+
+function reportResults(
+  run: vscode.TestRun,
+  leaves: Map<string, vscode.TestItem>,
+  results: TestResult[]
+): void {
+  const reported = new Set<string>();
+
+  for (const result of results) {
+    const item = leaves.get(result.id);
+    if (!item) {
+      continue;
+    }
+    reported.add(result.id);
+
+    const message = new vscode.TestMessage(result.message ?? `Test ${result.status}`);
+    const uri = result.file ? vscode.Uri.file(result.file) : item.uri;
+    if (uri) {
+      const line = result.line ? result.line - 1 : item.range?.start.line ?? 0;
+      message.location = new vscode.Location(uri, new vscode.Position(line, 0));
+    }
+
+    switch (result.status) {
+      case 'passed':
+        run.passed(item, result.duration);
+        break;
+      case 'failed':
+        run.failed(item, message, result.duration);
+        break;
+      case 'skipped':
+        run.skipped(item);
+        break;
+      default:
+        run.errored(item, message, result.duration);
+        break;
+    }
+  }
+
+  for (const [id, item] of leaves) {
+    if (!reported.has(id)) {
+      run.errored(item, new vscode.TestMessage('No result reported by the test runner'));
+    }
+  }
+}
+
+function getTestPatterns(): TestPatterns {
+  const config = vscode.workspace.getConfiguration('4d-helper');
+  return {
+    classPattern: toRegExp(config.get<string>('tests.classPattern', 'Test$'), /Test$/),
+    functionPattern: toRegExp(config.get<string>('tests.functionPattern', '^test'), /^test/),
+    methodPattern: toRegExp(config.get<string>('tests.methodPattern', '^test_'), /^test_/),
+  };
+}
+
+function toRegExp(pattern: string, fallback: RegExp): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return fallback;
+  }
+}
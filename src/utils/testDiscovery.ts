@@ -0,0 +1,233 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { open4DProject } from './launcher';
+import { addInstanceListener, watchInstanceExit } from './processManager';
+
+const TEST_STATUSES: readonly TestResult['status'][] = ['passed', 'failed', 'skipped', 'errored'];
+
+/**
+ * Patterns identifying tests in a project.
+ */
+export interface TestPatterns {
+  /** Matched against class names (e.g. "Test$" for "MathTest") */
+  classPattern: RegExp;
+  /** Matched against function names of test classes (e.g. "^test") */
+  functionPattern: RegExp;
+  /** Matched against project method names (e.g. "^test_") */
+  methodPattern: RegExp;
+}
+
+/**
+ * A test found in a project.
+ * Test IDs are "ClassName" / "ClassName.functionName" for classes and the
+ * method name for project methods; they are passed as is to the runner.
+ */
+export interface DiscoveredTest {
+  id: string;
+  label: string;
+  /** Path to the .4dm file defining the test */
+  file: string;
+  /** Line of the definition (0-based) */
+  line: number;
+  /** Test functions of a class */
+  children: DiscoveredTest[];
+}
+
+/**
+ * Outcome of one test, as written by the runner method.
+ */
+export interface TestResult {
+  id: string;
+  status: 'passed' | 'failed' | 'skipped' | 'errored';
+  /** Duration in milliseconds */
+  duration?: number;
+  message?: string;
+  /** Location of the failure, when known */
+  file?: string;
+  /** Line of the failure (1-based), when known */
+  line?: number;
+}
+
+/**
+ * Finds the test classes (with their test functions) and test methods of a project.
+ *
+ * @param projectFilePath - Path to the .4DProject file
+ */
+export async function discoverTests(
+  projectFilePath: string,
+  patterns: TestPatterns
+): Promise<DiscoveredTest[]> {
+  const sources = path.join(path.dirname(projectFilePath), 'Sources');
+  const tests: DiscoveredTest[] = [];
+
+  for (const file of await list4dmFiles(path.join(sources, 'Classes'))) {
+    const className = path.basename(file, '.4dm');
+    if (!patterns.classPattern.test(className)) {
+      continue;
+    }
+
+    const children = (await findFunctions(file))
+      .filter((fn) => patterns.functionPattern.test(fn.name))
+      .map((fn) => ({
+        id: `${className}.${fn.name}`,
+        label: fn.name,
+        file,
+        line: fn.line,
+        children: [],
+      }));
+
+    if (children.length > 0) {
+      tests.push({ id: className, label: className, file, line: 0, children });
+    }
+  }
+
+  for (const file of await list4dmFiles(path.join(sources, 'Methods'))) {
+    const methodName = path.basename(file, '.4dm');
+    if (patterns.methodPattern.test(methodName)) {
+      tests.push({ id: methodName, label: methodName, file, line: 0, children: [] });
+    }
+  }
+
+  return tests;
+}
+
+export interface TestRunSettings {
+  /** Project method running the tests and writing their results */
+  runnerMethod: string;
+  /** Seconds before the run is aborted */
+  timeout: number;
+}
+
+/**
+ * Runs tests headless through the runner method. The runner receives
+ * `{ "tests": [...ids], "resultsFile": "..." }` as user parameter and writes
+ * the results file read by parseTestResults.
+ *
+ * @param onOutput - Receives the output of 4D during the run
+ * @param isCancelled - Polled while waiting, stops 4D when it returns true
+ * @returns The results, or null if the run was cancelled
+ */
+export async function runTests(
+  appPath: string,
+  projectFile: string,
+  testIds: string[],
+  settings: TestRunSettings,
+  onOutput: (text: string) => void = () => undefined,
+  isCancelled: () => boolean = () => false
+): Promise<TestResult[] | null> {
+  const resultsFile = path.join(os.tmpdir(), `4d-helper-tests-${Date.now()}.json`);
+  const userParam = JSON.stringify({ tests: testIds, resultsFile });
+  const listeners: { dispose(): void }[] = [];
+
+  try {
+    const instance = await open4DProject(appPath, projectFile, {
+      headless: true,
+      startupMethod: settings.runnerMethod,
+      userParam,
+    });
+    if (!instance) {
+      throw new Error('Could not identify the 4D process running the tests');
+    }
+
+    listeners.push(
+      addInstanceListener({
+        onOutput: (running, _stream, text) => {
+          if (running.id === instance.id) {
+            onOutput(text);
+          }
+        },
+      })
+    );
+
+    const exit = await watchInstanceExit(instance, settings.timeout * 1000, isCancelled);
+    if (exit.reason === 'cancelled') {
+      return null;
+    }
+    if (exit.reason === 'timeout') {
+      throw new Error(`Test run timed out after ${settings.timeout}s`);
+    }
+
+    try {
+      return parseTestResults(await fs.promises.readFile(resultsFile, 'utf8'));
+    } catch {
+      throw new Error(`4D exited with code ${exit.code} without writing test results`);
+    }
+  } finally {
+    listeners.forEach((l) => l.dispose());
+    await fs.promises.rm(resultsFile, { force: true });
+  }
+}
+
+/**
+ * Parses the results file written by the runner method:
+ * `{ "results": [{ "id": "MathTest.test_add", "passed": true, "duration": 12 }] }`.
+ * A `status` field may be used instead of `passed`.
+ */
+export function parseTestResults(json: string): TestResult[] {
+  const raw: unknown = JSON.parse(json);
+  const entries = Array.isArray(raw) ? raw : asObject(raw).results;
+  if (!Array.isArray(entries)) {
+    return [];
+  }
+
+  const results: TestResult[] = [];
+  for (const entry of entries.map(asObject)) {
+    if (typeof entry.id !== 'string' || !entry.id) {
+      continue;
+    }
+
+    const status = TEST_STATUSES.find((known) => known === entry.status)
+      ?? (entry.passed === true ? 'passed' : 'failed');
+
+    results.push({
+      id: entry.id,
+      status,
+      duration: typeof entry.duration === 'number' ? entry.duration : undefined,
+      message: typeof entry.message === 'string' ? entry.message : undefined,
+      file: typeof entry.file === 'string' ? entry.file : undefined,
+      line: typeof entry.line === 'number' ? entry.line : undefined,
+    });
+  }
+  return results;
+}
+
+async function list4dmFiles(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile() && entry.name.endsWith('.4dm'))
+      .map((entry) => path.join(dir, entry.name))
+      .sort((a, b) => a.localeCompare(b));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Lists the functions declared in a class file (`Function name(...)`).
+ */
+async function findFunctions(file: string): Promise<{ name: string; line: number }[]> {
+  try {
+    const content = await fs.promises.readFile(file, 'utf8');
+    const functions: { name: string; line: number }[] = [];
+
+    content.split(/\r?\n/).forEach((text, line) => {
+      // Computed properties (Function get/set) are not tests
+      const match = /^\s*Function\s+(?!get\s|set\s)([A-Za-z_]\w*)/i.exec(text);
+      if (match) {
+        functions.push({ name: match[1], line });
+      }
+    });
+
+    return functions;
+  } catch {
+    return [];
+  }
+}
+
+function asObject(value: unknown): { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as { [key: string]: unknown })
+    : {};
+}
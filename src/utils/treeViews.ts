@@ -0,0 +1,375 @@
+import * as vscode from 'vscode';
+import {
+  FourDApplication,
+  getApplicationKind,
+  APPLICATION_KIND_ICONS,
+  APPLICATION_KIND_LABELS,
+  PROJECT_KINDS
+} from './applications';
+import { getApplicationMetadata, formatVersionLabel } from './appMetadata';
+import { FourDProjectFile } from './projectFinder';
+import { FolderProjects, findProjectsByFolder, getPreferredProject } from './workspaceProjects';
+import {
+  Server4D,
+  Server4DWithStatus,
+  getSavedServers,
+  getScanSettings,
+  getScanCache,
+  setScanCache,
+  checkServerStatus,
+  generateServerName
+} from './serverManager';
+import { getDefault4DPorts, scanSubnetUDP } from './serverScanner';
+import { FourDComponent, ComponentKind, findProjectComponents } from './components';
+
+export const APPLICATIONS_VIEW = '4d-helper.applications';
+export const PROJECTS_VIEW = '4d-helper.projects';
+export const SERVERS_VIEW = '4d-helper.servers';
+export const COMPONENTS_VIEW = '4d-helper.components';
+
+/** Settings level an application is configured at */
+export type ApplicationScope = 'user' | 'workspace';
+
+export type ApplicationNode =
+  | { type: 'scope'; scope: ApplicationScope; applications: FourDApplication[] }
+  | { type: 'application'; scope: ApplicationScope; app: FourDApplication };
+
+export type ProjectNode =
+  | { type: 'folder'; entry: FolderProjects }
+  | { type: 'project'; folder: vscode.WorkspaceFolder; project: FourDProjectFile; selected: boolean };
+
+export type ComponentNode =
+  | { type: 'project'; project: FourDProjectFile }
+  | { type: 'component'; component: FourDComponent };
+
+export type ServerNode =
+  | { type: 'group'; group: 'saved' | 'discovered' }
+  | { type: 'server'; server: Server4D; saved: boolean };
+
+/**
+ * Lists the configured applications, grouped by the settings level they are
+ * configured at (User or Workspace).
+ */
+export class ApplicationsTreeProvider implements vscode.TreeDataProvider<ApplicationNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<ApplicationNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  refresh(): void {
+    this.changeEmitter.fire(undefined);
+  }
+
+  getChildren(node?: ApplicationNode): ApplicationNode[] {
+    if (node?.type === 'scope') {
+      return node.applications.map((app) => ({ type: 'application', scope: node.scope, app }));
+    }
+    if (node) {
+      return [];
+    }
+
+    const inspected = vscode.workspace.getConfiguration('4d-helper').inspect<FourDApplication[]>('applications');
+    const scopes: ApplicationNode[] = [];
+    if (inspected?.globalValue?.length) {
+      scopes.push({ type: 'scope', scope: 'user', applications: inspected.globalValue });
+    }
+    if (inspected?.workspaceValue?.length) {
+      scopes.push({ type: 'scope', scope: 'workspace', applications: inspected.workspaceValue });
+    }
+    return scopes;
+  }
+
+  async getTreeItem(node: ApplicationNode): Promise<vscode.TreeItem> {
+    if (node.type === 'scope') {
+      const item = new vscode.TreeItem(
+        node.scope === 'user' ? 'User' : 'Workspace',
+        vscode.TreeItemCollapsibleState.Expanded
+      );
+      item.description = `${node.applications.length}`;
+      item.iconPath = new vscode.ThemeIcon(node.scope === 'user' ? 'account' : 'folder');
+      return item;
+    }
+
+    const kind = await getApplicationKind(node.app);
+    const version = formatVersionLabel(await getApplicationMetadata(node.app.path));
+
+    const item = new vscode.TreeItem(node.app.name);
+    item.description = [APPLICATION_KIND_LABELS[kind], version].filter(Boolean).join(' · ');
+    item.tooltip = node.app.path;
+    item.iconPath = new vscode.ThemeIcon(themeIconId(APPLICATION_KIND_ICONS[kind]));
+    // Only applications opening projects get the "open" action
+    item.contextValue = PROJECT_KINDS.includes(kind) ? 'application.project' : `application.${kind}`;
+    return item;
+  }
+}
+
+/**
+ * Lists the 4D projects of the workspace, grouped by folder in multi-root
+ * workspaces. The project the 4D commands use in each folder is marked.
+ */
+export class ProjectsTreeProvider implements vscode.TreeDataProvider<ProjectNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<ProjectNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  refresh(): void {
+    this.changeEmitter.fire(undefined);
+  }
+
+  async getChildren(node?: ProjectNode): Promise<ProjectNode[]> {
+    if (node?.type === 'folder') {
+      return projectNodes(node.entry);
+    }
+    if (node) {
+      return [];
+    }
+
+    const found = await findProjectsByFolder();
+    if ((vscode.workspace.workspaceFolders?.length ?? 0) > 1) {
+      return found.map((entry) => ({ type: 'folder', entry }));
+    }
+    return found.flatMap(projectNodes);
+  }
+
+  getTreeItem(node: ProjectNode): vscode.TreeItem {
+    if (node.type === 'folder') {
+      const item = new vscode.TreeItem(node.entry.folder.name, vscode.TreeItemCollapsibleState.Expanded);
+      item.iconPath = vscode.ThemeIcon.Folder;
+      item.resourceUri = node.entry.folder.uri;
+      return item;
+    }
+
+    const uri = vscode.Uri.file(node.project.path);
+    const item = new vscode.TreeItem(node.project.name);
+    item.description = node.project.relativePath;
+    item.tooltip = node.selected ? `${node.project.path}\nUsed by the 4D commands` : node.project.path;
+    item.iconPath = new vscode.ThemeIcon(node.selected ? 'pass-filled' : 'file-code');
+    item.contextValue = node.selected ? 'project.selected' : 'project';
+    item.command = { command: 'vscode.open', title: 'Open Project File', arguments: [uri] };
+    return item;
+  }
+}
+
+/** Theme icon and label of each component kind */
+const COMPONENT_KINDS: Record<ComponentKind, { icon: string; label: string }> = {
+  source: { icon: 'file-code', label: 'source' },
+  built: { icon: 'package', label: 'built' },
+  notFound: { icon: 'warning', label: 'not found' },
+};
+
+/**
+ * Lists the components used by each project of the workspace, from its
+ * Components folders and dependencies file.
+ */
+export class ComponentsTreeProvider implements vscode.TreeDataProvider<ComponentNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<ComponentNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  refresh(): void {
+    this.changeEmitter.fire(undefined);
+  }
+
+  async getChildren(node?: ComponentNode): Promise<ComponentNode[]> {
+    if (node?.type === 'project') {
+      const components = await findProjectComponents(node.project.path);
+      return components.map((component) => ({ type: 'component', component }));
+    }
+    if (node) {
+      return [];
+    }
+
+    const projects = (await findProjectsByFolder()).flatMap((entry) => entry.projects);
+    return projects.map((project) => ({ type: 'project', project }));
+  }
+
+  getTreeItem(node: ComponentNode): vscode.TreeItem {
+    if (node.type === 'project') {
+      const item = new vscode.TreeItem(node.project.name, vscode.TreeItemCollapsibleState.Expanded);
+      item.description = node.project.relativePath;
+      item.iconPath = new vscode.ThemeIcon('file-submodule');
+      return item;
+    }
+
+    const { component } = node;
+    const kind = COMPONENT_KINDS[component.kind];
+    const declaredIn = component.declaredIn === 'dependencies' ? 'dependencies.json' : 'Components';
+
+    const item = new vscode.TreeItem(component.name);
+    item.description = [kind.label, declaredIn, component.version].filter(Boolean).join(' · ');
+    item.tooltip = [
+      component.projectFile ?? component.builtFile ?? component.path,
+      component.github ? `GitHub: ${component.github}` : '',
+    ].filter(Boolean).join('\n');
+    item.iconPath = new vscode.ThemeIcon(kind.icon);
+    item.contextValue = `component.${component.kind}`;
+    if (component.projectFile) {
+      item.command = {
+        command: 'vscode.open',
+        title: 'Open Project File',
+        arguments: [vscode.Uri.file(component.projectFile)],
+      };
+    }
+    return item;
+  }
+}
+
+/**
+ * Lists the saved servers and the servers found by the last network scan,
+ * with their online status. The status of saved servers is checked when the
+ * view is shown and then periodically.
+ */
+export class ServersTreeProvider implements vscode.TreeDataProvider<ServerNode>, vscode.Disposable {
+  private readonly changeEmitter = new vscode.EventEmitter<ServerNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  /** Status of saved servers by "host:port"; missing until first checked */
+  private readonly statuses = new Map<string, Server4DWithStatus>();
+  private timer: NodeJS.Timeout | undefined;
+  private scanning = false;
+
+  refresh(): void {
+    this.changeEmitter.fire(undefined);
+
+    // Previous statuses stay shown until the new ones arrive
+    const { timeout } = getScanSettings();
+    const checks = getSavedServers().map((server) =>
+      checkServerStatus(server, timeout)
+        .catch((): Server4DWithStatus => ({ ...server, isOnline: false }))
+        .then((status) => {
+          this.statuses.set(serverKey(server), status);
+        })
+    );
+    if (checks.length > 0) {
+      Promise.allSettled(checks).then(() => this.changeEmitter.fire(undefined));
+    }
+  }
+
+  /**
+   * Checks the saved servers now and every `seconds` (0 to disable), or stops
+   * checking when `seconds` is undefined.
+   */
+  setAutoRefresh(seconds: number | undefined): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    if (seconds === undefined) {
+      return;
+    }
+
+    this.refresh();
+    if (seconds > 0) {
+      this.timer = setInterval(() => this.refresh(), seconds * 1000);
+    }
+  }
+
+  /**
+   * Scans the local network for servers, showing progress in the view.
+   */
+  async rescan(): Promise<void> {
+    if (this.scanning) {
+      return;
+    }
+    this.scanning = true;
+
+    const settings = getScanSettings();
+    const ports = getDefault4DPorts(settings.portStart, settings.portEnd);
+    try {
+      await vscode.window.withProgress({ location: { viewId: SERVERS_VIEW } }, async () => {
+        const found = await scanSubnetUDP(ports, settings.timeout, 30);
+        setScanCache(
+          found.map((result) => ({
+            name: generateServerName(result.host, result.port, result.discoveryInfo),
+            host: result.host,
+            port: result.port,
+            isOnline: true,
+            responseTime: result.responseTime,
+            detectedPorts: result.relatedPorts,
+            discoveryInfo: result.discoveryInfo,
+          })),
+          new Map()
+        );
+      });
+    } finally {
+      this.scanning = false;
+      this.changeEmitter.fire(undefined);
+    }
+  }
+
+  getChildren(node?: ServerNode): ServerNode[] {
+    const saved = getSavedServers();
+    const savedKeys = new Set(saved.map(serverKey));
+    const discovered = (getScanCache()?.servers ?? []).filter((server) => !savedKeys.has(serverKey(server)));
+
+    if (!node) {
+      const groups: ServerNode[] = [];
+      if (saved.length > 0) {
+        groups.push({ type: 'group', group: 'saved' });
+      }
+      if (discovered.length > 0) {
+        groups.push({ type: 'group', group: 'discovered' });
+      }
+      return groups;
+    }
+    if (node.type !== 'group') {
+      return [];
+    }
+    return node.group === 'saved'
+      ? saved.map((server) => ({ type: 'server', server, saved: true }))
+      : discovered.map((server) => ({ type: 'server', server, saved: false }));
+  }
+
+  getTreeItem(node: ServerNode): vscode.TreeItem {
+    if (node.type === 'group') {
+      const item = new vscode.TreeItem(
+        node.group === 'saved' ? 'Saved Servers' : 'Discovered Servers',
+        vscode.TreeItemCollapsibleState.Expanded
+      );
+      item.contextValue = `group.${node.group}`;
+      return item;
+    }
+
+    const status = node.saved ? this.statuses.get(serverKey(node.server)) : (node.server as Server4DWithStatus);
+    const info = status?.discoveryInfo;
+
+    const item = new vscode.TreeItem(node.server.name);
+    item.description = [info?.database, `${node.server.host}:${node.server.port}`].filter(Boolean).join(' · ');
+    if (!status) {
+      item.iconPath = new vscode.ThemeIcon('loading~spin');
+      item.tooltip = 'Checking...';
+    } else if (status.isOnline) {
+      item.iconPath = new vscode.ThemeIcon('circle-filled', new vscode.ThemeColor('testing.iconPassed'));
+      item.tooltip = [
+        `Online${status.responseTime ? ` (${status.responseTime}ms)` : ''}`,
+        info ? `${info.database} on ${info.host}` : '',
+        status.detectedPorts && status.detectedPorts.length > 1 ? `Ports: ${status.detectedPorts.join(', ')}` : '',
+      ].filter(Boolean).join('\n');
+    } else {
+      item.iconPath = new vscode.ThemeIcon('circle-outline');
+      item.tooltip = 'Offline';
+    }
+    item.contextValue = node.saved ? 'server.saved' : 'server.discovered';
+    return item;
+  }
+
+  dispose(): void {
+    this.setAutoRefresh(undefined);
+    this.changeEmitter.dispose();
+  }
+}
+
+function projectNodes(entry: FolderProjects): ProjectNode[] {
+  const preferred = getPreferredProject(entry);
+  return entry.projects.map((project) => ({
+    type: 'project',
+    folder: entry.folder,
+    project,
+    selected: project === preferred,
+  }));
+}
+
+function serverKey(server: Server4D): string {
+  return `${server.host}:${server.port}`;
+}
+
+/** Converts a "$(name)" label icon into a theme icon id */
+function themeIconId(labelIcon: string): string {
+  return labelIcon.replace(/^\$\((.*)\)$/, '$1');
+}
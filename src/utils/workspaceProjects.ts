@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { getDefaultProject, FourDProjectFile } from './projectFinder';
+import { getFolderProjects } from './projectIndex';
+import { LaunchOptions } from './launcher';
+
+/**
+ * Projects found in a workspace folder.
+ */
+export interface FolderProjects {
+  folder: vscode.WorkspaceFolder;
+  projects: FourDProjectFile[];
+}
+
+/**
+ * Finds the projects of each workspace folder, omitting folders without any.
+ */
+export async function findProjectsByFolder(): Promise<FolderProjects[]> {
+  const found: FolderProjects[] = [];
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    const projects = await getFolderProjects(folder);
+    if (projects.length > 0) {
+      found.push({ folder, projects });
+    }
+  }
+  return found;
+}
+
+/**
+ * Returns the project of a folder to use without asking: the one saved in the
+ * folder settings, the only one, or the one in the root "Project" folder.
+ */
+export function getPreferredProject(entry: FolderProjects): FourDProjectFile | undefined {
+  const config = vscode.workspace.getConfiguration('4d-helper', entry.folder.uri);
+  const savedProjectPath = config.get<string>('selectedProject');
+  const savedProject = savedProjectPath
+    ? entry.projects.find((p) => p.path === savedProjectPath)
+    : undefined;
+
+  return savedProject ?? getDefaultProject(entry.projects);
+}
+
+/**
+ * Saves the selected project to the settings of its folder.
+ */
+export async function saveSelectedProject(
+  folder: vscode.WorkspaceFolder,
+  project: FourDProjectFile
+): Promise<void> {
+  const config = vscode.workspace.getConfiguration('4d-helper', folder.uri);
+  await config.update('selectedProject', project.path, vscode.ConfigurationTarget.WorkspaceFolder);
+}
+
+/**
+ * Resolves the project file to launch without prompting: the given path
+ * (absolute or relative to the folder), or the project found in the folder.
+ */
+export async function resolveProjectPath(
+  project: string | undefined,
+  folder: vscode.WorkspaceFolder
+): Promise<string> {
+  if (project) {
+    const resolved = project.replace(/\$\{workspaceFolder\}/g, folder.uri.fsPath);
+    return path.resolve(folder.uri.fsPath, resolved);
+  }
+
+  const projects = await getFolderProjects(folder);
+  if (projects.length === 0) {
+    throw new Error(`No .4DProject file found in ${folder.name}`);
+  }
+
+  // Use the project selected with "Open 4D Project" or the status bar, if any
+  const selected = getPreferredProject({ folder, projects });
+  if (!selected) {
+    throw new Error('Multiple .4DProject files found. Specify the "project" to open.');
+  }
+  return selected.path;
+}
+
+/**
+ * Resolves `${workspaceFolder}` and relative paths in launch options.
+ */
+export function resolveOptionPaths(
+  options: LaunchOptions,
+  folder: vscode.WorkspaceFolder
+): LaunchOptions {
+  if (options.dataFile) {
+    const dataFile = options.dataFile.replace(/\$\{workspaceFolder\}/g, folder.uri.fsPath);
+    return { ...options, dataFile: path.resolve(folder.uri.fsPath, dataFile) };
+  }
+  return options;
+}